@@ -1,6 +1,8 @@
 import { MCPServer, widget, text, object } from "mcp-use/server";
 import { z } from "zod";
-import { searchStations, findConnections, checkDisruptions, getStationboard, getStationWeather } from "./src/api/transport";
+import { searchStations, findNearbyStations, findConnections, decodeConnectionCursor, checkDisruptions, getStationboard, getStationWeather } from "./src/api/transport";
+import { withRequestBudget } from "./src/api/budget";
+import { InvalidCursor, NoConnections, RateLimited, RequestBudgetExceeded, StationNotFound, UnknownReliabilityProfile, UpstreamError, UpstreamTimeout } from "./src/api/errors";
 
 const server = new MCPServer({
   name: "swiss-transit-explorer",
@@ -12,13 +14,13 @@ const server = new MCPServer({
 server.tool(
   {
     name: "search_stations",
-    description: "Search for Swiss transit stations by name. Use for autocomplete and validation.",
+    description: "Search for Swiss transit stations by name. Returns UIC id, coordinates and transport type. Use for autocomplete and validation.",
     schema: z.object({
       query: z.string().describe("Station name (e.g., 'Zurich', 'Bern HB')"),
       limit: z.number().optional().default(8),
     }),
   },
-  async ({ query, limit }) => {
+  budgeted(async ({ query, limit }) => {
     try {
       const stations = await searchStations(query, limit);
       if (stations.length === 0) {
@@ -29,9 +31,40 @@ server.tool(
         stations,
       });
     } catch (error) {
-      return text(`Failed to search stations: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed to search stations", error);
     }
-  }
+  })
+);
+
+server.tool(
+  {
+    name: "find_nearby_stations",
+    description: "Find the closest Swiss transit stops to a latitude/longitude, sorted by distance with walking estimates. Use for 'what's the closest stop to me'.",
+    schema: z.object({
+      lat: z.number().min(-90).max(90).describe("Latitude (WGS84), e.g. 47.3769"),
+      lon: z.number().min(-180).max(180).describe("Longitude (WGS84), e.g. 8.5417"),
+      radiusMeters: z.number().optional().default(1000).describe("Search radius in metres (default: 1000)"),
+      types: z.array(z.enum(["train", "tram", "bus", "ship", "cableway"])).optional().describe("Only include these transport types"),
+      limit: z.number().optional().default(10),
+    }),
+  },
+  budgeted(async ({ lat, lon, radiusMeters, types, limit }) => {
+    try {
+      const stations = await findNearbyStations(lat, lon, radiusMeters, types, limit);
+      if (stations.length === 0) {
+        return text(`No stations found within ${radiusMeters}m of ${lat}, ${lon}. Try a larger radius.`);
+      }
+
+      const closest = stations[0];
+      return object({
+        summary: `Closest stop: ${closest.name} (${closest.distanceMeters}m, ~${closest.walkingMinutes} min walk). ` +
+          `${stations.length} station${stations.length !== 1 ? "s" : ""} within ${radiusMeters}m.`,
+        stations,
+      });
+    } catch (error) {
+      return errorText("Failed to find nearby stations", error);
+    }
+  })
 );
 
 server.tool(
@@ -44,6 +77,14 @@ server.tool(
       datetime: z.string().optional().describe("Time: '15:00', '3pm', or ISO. Empty = now"),
       isArrivalTime: z.boolean().optional().default(false).describe("TRUE = arrive by datetime, FALSE = depart at datetime"),
       limit: z.number().optional().default(3),
+      via: z.array(z.string()).max(5).optional().describe("Stations to travel through, in order (e.g. ['Olten'])"),
+      transportations: z.array(z.enum(["train", "tram", "ship", "bus", "cableway"])).optional().describe("Only use these transport modes (e.g. ['train'] for trains only)"),
+      direct: z.boolean().optional().describe("Only direct connections without transfers"),
+      sleeper: z.boolean().optional().describe("Night trains with sleeper cars"),
+      couchette: z.boolean().optional().describe("Night trains with couchettes"),
+      bike: z.boolean().optional().describe("Connections that allow bikes"),
+      cursor: z.string().optional().describe("Page cursor from a previous result (cursors.earlier or cursors.later). Overrides datetime"),
+      profile: z.string().optional().describe("Reliability scoring profile: 'default', 'cautious' (bigger buffers), 'commuter' (accepts tight changes) or 'accessible' (wheelchair, luggage, pram)"),
     }),
     widget: {
       name: "transit-route-explorer",
@@ -51,36 +92,59 @@ server.tool(
       invoked: "Found connections",
     },
   },
-  async ({ from, to, datetime, isArrivalTime, limit }) => {
+  budgeted(async ({ from, to, datetime, isArrivalTime, limit, via, transportations, direct, sleeper, couchette, bike, cursor, profile }) => {
     try {
-      const requestTime = parseDateTime(datetime);
-      const result = await findConnections(from, to, requestTime, isArrivalTime, limit);
+      const page = cursor ? decodeConnectionCursor(cursor) : undefined;
+      const requestTime = page?.datetime || parseDateTime(datetime);
+      const filters = { via, transportations, direct, sleeper, couchette, bike };
+      const result = await findConnections(from, to, requestTime, page?.isArrivalTime ?? isArrivalTime, limit, true, filters, profile);
 
-      if (result.connections.length === 0) {
-        return text(`No connections found from "${from}" to "${to}".`);
-      }
-
-      const fastest = result.connections.reduce((a, b) => a.durationMinutes < b.durationMinutes ? a : b);
-      const recommended = result.connections.find((c) => c.tags.includes("recommended")) || fastest;
       const formatTime = (iso: string) => new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
-
-      const summary = `Found ${result.connections.length} connections from ${result.fromStation?.name || from} to ${result.toStation?.name || to}. ` +
+      const viaText = via?.length ? ` via ${via.join(", ")}` : "";
+      const cancelledCount = result.connections.filter((c) => c.reliability?.unusable).length;
+
+      const props = {
+        query: { from, to, datetimeISO: requestTime, filters, profile },
+        stationsResolved: { fromStation: result.fromStation, toStation: result.toStation },
+        connections: result.connections,
+        cursors: result.cursors,
+        generatedAtISO: new Date().toISOString(),
+      };
+
+      // Never suggest a cancelled trip as the best one
+      const usable = result.connections.filter((c) => !c.reliability?.unusable);
+      if (usable.length === 0) {
+        return widget({
+          props,
+          output: text(
+            `All ${result.connections.length} connections found from ${result.fromStation?.name || from} to ${result.toStation?.name || to}${viaText} are cancelled. ` +
+              "Try a later time (cursors.later) or another route."
+          ),
+        });
+      }
+      const fastest = usable.reduce((a, b) => a.durationMinutes < b.durationMinutes ? a : b);
+      const recommended = usable.find((c) => c.tags.includes("recommended")) || fastest;
+      const risky = recommended.reliability?.transferRisks.find((r) => r.fallback);
+      const summary = `Found ${result.connections.length} connections from ${result.fromStation?.name || from} to ${result.toStation?.name || to}${viaText}. ` +
         `Best: depart ${formatTime(recommended.departureTime)}, arrive ${formatTime(recommended.arrivalTime)} ` +
-        `(${recommended.durationMinutes} min, ${recommended.transfersCount === 0 ? "direct" : recommended.transfersCount + " transfer(s)"}).`;
-
-      return widget({
-        props: {
-          query: { from, to, datetimeISO: requestTime },
-          stationsResolved: { fromStation: result.fromStation, toStation: result.toStation },
-          connections: result.connections,
-          generatedAtISO: new Date().toISOString(),
-        },
-        output: text(summary),
-      });
+        `(${recommended.durationMinutes} min, ${recommended.transfersCount === 0 ? "direct" : recommended.transfersCount + " transfer(s)"}).` +
+        (recommended.reliability?.allTransfersProbability !== undefined && recommended.transfersCount > 0
+          ? ` ${Math.round(recommended.reliability.allTransfersProbability * 100)}% chance to make all connections, expected arrival +${recommended.reliability.expectedArrivalDelayMinutes ?? 0} min.`
+          : "") +
+        (result.connections.some((c) => c.weatherSkipped) ? " Weather check skipped for some connections (request budget reached)." : "") +
+        (recommended.weather?.missing?.length
+          ? ` No weather forecast for ${recommended.weather.missing.map((m) => `${m.station} (${m.reason === "fetch_failed" ? "weather service failed" : "too far ahead"})`).join(", ")}; don't assume good weather there.`
+          : "") +
+        (risky?.fallback
+          ? ` If the change at ${risky.fromStation} is missed: next ${risky.fallback.line?.name || "connection"} at ${formatTime(risky.fallback.departureTime)}, arrive +${risky.fallback.arrivalDelayMinutes} min.`
+          : "") +
+        (cancelledCount > 0 ? ` ${cancelledCount} connection(s) cancelled.` : "");
+
+      return widget({ props, output: text(summary) });
     } catch (error) {
-      return text(`Failed to find connections: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed to find connections", error);
     }
-  }
+  })
 );
 
 server.tool(
@@ -98,32 +162,33 @@ server.tool(
       invoked: "Found connections",
     },
   },
-  async ({ from, to, arriveBy }) => {
+  budgeted(async ({ from, to, arriveBy }) => {
     try {
       const requestTime = parseDateTime(arriveBy);
       const result = await findConnections(from, to, requestTime, true, 3);
 
-      if (result.connections.length === 0) {
-        return text(`No connections found arriving in ${to} by ${arriveBy}.`);
-      }
-
       const formatTime = (iso: string) => new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
-      const latest = result.connections[result.connections.length - 1];
-      const summary = `Found ${result.connections.length} options arriving by ${arriveBy}. Latest departure: ${formatTime(latest.departureTime)} → arrive ${formatTime(latest.arrivalTime)}.`;
+      const usable = result.connections.filter((c) => !c.reliability?.unusable);
+      const latest = usable[usable.length - 1];
+      const summary = latest
+        ? `Found ${result.connections.length} options arriving by ${arriveBy}. Latest departure: ${formatTime(latest.departureTime)} → arrive ${formatTime(latest.arrivalTime)}.` +
+          (usable.length < result.connections.length ? ` ${result.connections.length - usable.length} connection(s) cancelled.` : "")
+        : `All ${result.connections.length} connections arriving in ${to} by ${arriveBy} are cancelled. Try an earlier deadline or another route.`;
 
       return widget({
         props: {
           query: { from, to, datetimeISO: requestTime },
           stationsResolved: { fromStation: result.fromStation, toStation: result.toStation },
           connections: result.connections,
+          cursors: result.cursors,
           generatedAtISO: new Date().toISOString(),
         },
         output: text(summary),
       });
     } catch (error) {
-      return text(`Failed to find connections: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed to find connections", error);
     }
-  }
+  })
 );
 
 server.tool(
@@ -137,12 +202,9 @@ server.tool(
       connectionIndex: z.number().optional().default(0),
     }),
   },
-  async ({ from, to, datetime, connectionIndex }) => {
+  budgeted(async ({ from, to, datetime, connectionIndex }) => {
     try {
       const result = await findConnections(from, to, datetime, false, 6);
-      if (result.connections.length === 0) {
-        return text("No connections found.");
-      }
 
       const connection = result.connections[connectionIndex] || result.connections[0];
       const formatTime = (iso: string) => new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
@@ -150,9 +212,15 @@ server.tool(
       const legDetails = connection.legs
         .map((leg, i) => {
           if (leg.type === "walk") return `${i + 1}. 🚶 Walk: ${leg.from.name} → ${leg.to.name}`;
-          const platform = leg.from.platform ? ` (Pl. ${leg.from.platform})` : "";
-          const delay = leg.delayMinutes ? ` ⚠️ +${leg.delayMinutes}min` : "";
-          return `${i + 1}. ${leg.line}: ${leg.from.name}${platform} ${formatTime(leg.from.timePlanned)} → ${leg.to.name} ${formatTime(leg.to.timePlanned)}${delay}`;
+          const platform = leg.from.platform ? ` (${platformLabel(leg.from)})` : "";
+          const delay = leg.cancellation === "cancelled"
+            ? " ❌ Cancelled"
+            : leg.cancellation === "partial"
+              ? ` ⚠️ Partially cancelled${leg.to.cancelled ? ` (no stop at ${leg.to.name})` : ""}`
+              : leg.delayMinutes ? ` ⚠️ +${leg.delayMinutes}min` : "";
+          const operator = leg.line?.operator ? ` [${leg.line.operator}]` : "";
+          const arrivalPlatform = leg.to.platformChanged ? ` (${platformLabel(leg.to)})` : "";
+          return `${i + 1}. ${leg.line?.name}${operator}: ${leg.from.name}${platform} ${formatTime(leg.from.timePlanned)} → ${leg.to.name}${arrivalPlatform} ${formatTime(leg.to.timePlanned)}${delay}`;
         })
         .join("\n");
 
@@ -161,20 +229,25 @@ server.tool(
         summary: `${from} → ${to}\nDepart: ${formatTime(connection.departureTime)} | Arrive: ${formatTime(connection.arrivalTime)}\nDuration: ${connection.durationMinutes}min | Transfers: ${connection.transfersCount}\n\n${legDetails}`,
       });
     } catch (error) {
-      return text(`Failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed", error);
     }
-  }
+  })
 );
 
 server.tool(
   {
     name: "check_disruptions",
-    description: "Check for delays/disruptions around a Swiss transit station.",
+    description: "Check for delays/disruptions around a Swiss transit station. Samples the station's departure board and routes to nearby hubs, with a per-line breakdown.",
     schema: z.object({
       station: z.string().describe("Station name (e.g., 'Zürich HB', 'Bern')"),
     }),
+    widget: {
+      name: "disruption-dashboard",
+      invoking: "Checking for disruptions...",
+      invoked: "Disruption check complete",
+    },
   },
-  async ({ station }) => {
+  budgeted(async ({ station }) => {
     try {
       const result = await checkDisruptions(station);
       const statusEmoji = { normal: "✅", minor_delays: "🟡", major_delays: "🟠", disrupted: "⚠️" };
@@ -184,66 +257,104 @@ server.tool(
       details += `${result.summary}\n\n`;
       details += `Routes checked: ${result.routesChecked.join(", ")}\n`;
       details += `Connections: ${result.totalConnectionsChecked} checked, ${result.delayedConnectionsCount} delayed\n`;
-      details += `Delays: avg ${result.averageDelayMinutes}min, max ${result.maxDelayMinutes}min\n`;
+      details += `Delays: avg ${result.averageDelayMinutes}min, max ${result.maxDelayMinutes}min, ${result.onTimePercent}% on time\n`;
+
+      const affectedLines = result.lines.filter((l) => l.onTimePercent < 100 || l.cancellations > 0);
+      if (affectedLines.length > 0) {
+        details += `\nBy line:\n`;
+        for (const l of affectedLines) {
+          const cancelled = l.cancellations > 0 ? `, ${l.cancellations} cancelled` : "";
+          details += `• ${l.line} → ${l.direction}: ${l.onTimePercent}% on time, avg +${l.averageDelayMinutes}min${cancelled}\n`;
+        }
+      }
 
       if (result.delayedRoutes.length > 0) {
         details += `\nDelayed:\n`;
-        for (const dr of result.delayedRoutes) {
+        for (const dr of result.delayedRoutes.slice(0, 10)) {
           details += `• ${dr.line}: ${dr.route} (+${dr.delayMinutes}min)\n`;
         }
       }
       details += `\n_Checked ${formatTime(result.checkedAt)}_`;
 
-      return object({ ...result, _humanSummary: details });
+      return widget({
+        props: result,
+        output: text(details),
+      });
     } catch (error) {
-      return text(`Failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed", error);
     }
-  }
+  })
 );
 
 server.tool(
   {
     name: "get_departures",
-    description: "Get live departure board for a Swiss transit station. Shows next departures like the boards at train stations.",
+    description: "Get live departure or arrival board for a Swiss transit station. Shows next trains like the boards at train stations. Use type='arrival' when picking someone up.",
     schema: z.object({
       station: z.string().describe("Station name (e.g., 'Zürich HB', 'Bern')"),
-      limit: z.number().optional().default(10).describe("Number of departures (default: 10)"),
+      limit: z.number().optional().default(10).describe("Number of entries (default: 10)"),
+      type: z.enum(["departure", "arrival"]).optional().default("departure").describe("'departure' (default) or 'arrival' board"),
+      categories: z.array(z.string()).optional().describe("Line categories to include (e.g. ['S'], ['IC', 'IR'])"),
+      line: z.string().optional().describe("Exact line (e.g. 'S12', 'IR 36')"),
+      destination: z.string().optional().describe("Destination contains this text (origin on arrival boards)"),
+      platforms: z.array(z.string()).optional().describe("Only these platforms (e.g. ['41', '42'])"),
+      datetime: z.string().optional().describe("Board start time: '15:00', '3pm', or ISO. Empty = now"),
+      windowMinutes: z.number().optional().describe("Only show entries within this many minutes after the start"),
+      refreshSeconds: z.number().optional().default(30).describe("How often the board widget refreshes itself, in seconds (0 = never)"),
     }),
     widget: {
       name: "departures-board",
-      invoking: "Loading departure board...",
-      invoked: "Departure board loaded",
+      invoking: "Loading station board...",
+      invoked: "Station board loaded",
     },
   },
-  async ({ station, limit }) => {
+  budgeted(async ({ station, limit, type, categories, line, destination, platforms, datetime, windowMinutes, refreshSeconds }) => {
     try {
-      const result = await getStationboard(station, limit);
-      
-      if (result.departures.length === 0) {
-        return text(`No departures found for "${station}".`);
-      }
+      const filters = { categories, line, destination, platforms, datetime: datetime ? parseDateTime(datetime) : undefined, windowMinutes };
+      const result = await getStationboard(station, limit, type, filters);
+      const isArrival = result.type === "arrival";
+      const count = isArrival ? result.arrivals.length : result.departures.length;
+      const hasFilters = !!(categories?.length || line || destination || platforms?.length || windowMinutes);
 
       const formatTime = (iso: string) => new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
-      const nextDep = result.departures[0];
-      const delayedCount = result.departures.filter(d => d.delayMinutes && d.delayMinutes > 0).length;
-
-      let summary = `${result.station}: ${result.departures.length} upcoming departures. `;
-      summary += `Next: ${nextDep.line} to ${nextDep.destination} at ${formatTime(nextDep.departurePlanned)}`;
-      if (nextDep.platform) summary += ` (Pl. ${nextDep.platform})`;
-      if (delayedCount > 0) summary += `. ${delayedCount} train(s) delayed.`;
+      const entries = isArrival ? result.arrivals : result.departures;
+      const delayedCount = entries.filter(d => d.delayMinutes && d.delayMinutes > 0).length;
+      const cancelledCount = entries.filter(d => d.cancellation).length;
+
+      // An empty board is still a valid board: the widget keeps its filters and can widen them
+      let summary = `No ${isArrival ? "arrivals" : "departures"} found for "${station}"${hasFilters ? " matching those filters" : ""}.`;
+      if (count > 0) {
+        summary = `${result.station}: ${count} upcoming ${isArrival ? "arrivals" : "departures"}. `;
+        if (isArrival) {
+          const next = result.arrivals[0];
+          summary += `Next: ${next.line} from ${next.origin} at ${formatTime(next.arrivalPlanned)}`;
+          if (next.platform) summary += ` (${platformLabel(next)})`;
+        } else {
+          const next = result.departures[0];
+          summary += `Next: ${next.line} to ${next.destination} at ${formatTime(next.departurePlanned)}`;
+          if (next.platform) summary += ` (${platformLabel(next)})`;
+        }
+        if (delayedCount > 0) summary += `. ${delayedCount} train(s) delayed.`;
+        if (cancelledCount > 0) summary += `${delayedCount > 0 ? "" : "."} ${cancelledCount} train(s) fully or partially cancelled.`;
+      }
 
       return widget({
         props: {
           station: result.station,
+          type: result.type,
           departures: result.departures,
+          arrivals: result.arrivals,
+          filters: result.filters,
+          limit,
+          refreshSeconds,
           generatedAt: result.generatedAt,
         },
         output: text(summary),
       });
     } catch (error) {
-      return text(`Failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed", error);
     }
-  }
+  })
 );
 
 server.tool(
@@ -254,7 +365,7 @@ server.tool(
       station: z.string().describe("Station name (e.g., 'Zürich HB', 'Bern', 'Zürich Oerlikon')"),
     }),
   },
-  async ({ station }) => {
+  budgeted(async ({ station }) => {
     try {
       const weather = await getStationWeather(station);
       
@@ -271,6 +382,7 @@ server.tool(
 
       let summary = `${emoji} **${weather.station}**: ${weather.temperature}°C, ${weather.conditions.toLowerCase()}`;
       if (weather.precipitation > 0) summary += `, ${weather.precipitation}mm precipitation`;
+      if (weather.precipitationProbability) summary += `, ${weather.precipitationProbability}% chance of rain`;
       if (weather.snowfall > 0) summary += `, ${weather.snowfall}cm snow`;
       if (weather.windGusts > 30) summary += `, gusts ${Math.round(weather.windGusts)}km/h`;
 
@@ -279,11 +391,52 @@ server.tool(
         _summary: summary,
       });
     } catch (error) {
-      return text(`Failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+      return errorText("Failed", error);
     }
-  }
+  })
 );
 
+// Every tool invocation gets its own upstream request budget
+function budgeted<A, R>(handler: (args: A) => Promise<R>) {
+  return (args: A) => withRequestBudget(() => handler(args));
+}
+
+function errorText(prefix: string, error: unknown) {
+  if (error instanceof StationNotFound) {
+    return text(`Station "${error.station}" not found. Use search_stations to look up the exact name, then retry.`);
+  }
+  if (error instanceof NoConnections) {
+    return text(`No connections found from "${error.from}" to "${error.to}". Try another time or a nearby station.`);
+  }
+  if (error instanceof InvalidCursor) {
+    return text(`${prefix}: the page cursor is invalid or from another search. Repeat the search without a cursor and page from its cursors.`);
+  }
+  if (error instanceof UnknownReliabilityProfile) {
+    return text(`${prefix}: unknown profile "${error.profile}". Use one of: ${error.available.join(", ")}.`);
+  }
+  if (error instanceof RateLimited) {
+    const wait = error.retryAfterMs ? ` for about ${Math.ceil(error.retryAfterMs / 1000)}s` : "";
+    return text(`${prefix}: the transit API is rate limiting requests. Wait${wait} before calling this tool again.`);
+  }
+  if (error instanceof RequestBudgetExceeded) {
+    return text(`${prefix}: this request needed more than ${error.limit} upstream calls. Narrow it down (fewer results, one station) and retry.`);
+  }
+  if (error instanceof UpstreamTimeout) {
+    return text(`${prefix}: ${error.host} timed out. The service may be slow; retry once, then tell the user live data is unavailable.`);
+  }
+  if (error instanceof UpstreamError) {
+    return text(`${prefix}: ${error.message}. Live data is currently unavailable; do not guess timetables.`);
+  }
+  return text(`${prefix}: ${error instanceof Error ? error.message : "Unknown error"}`);
+}
+
+function platformLabel(stop: { platform?: string; platformPlanned?: string; platformChanged?: boolean }) {
+  if (!stop.platformChanged) return `Pl. ${stop.platform}`;
+  return stop.platformPlanned
+    ? `⚠️ Platform changed ${stop.platformPlanned} → ${stop.platform}`
+    : `⚠️ Platform changed to ${stop.platform}`;
+}
+
 function parseDateTime(datetime?: string): string {
   if (!datetime) return new Date().toISOString();
   
@@ -1,31 +1,82 @@
 import { AppsSDKUIProvider } from "@openai/apps-sdk-ui/components/AppsSDKUIProvider";
-import { McpUseProvider, useWidget, type WidgetMetadata } from "mcp-use/react";
-import React from "react";
+import { McpUseProvider, useWidget, type CallToolResponse, type WidgetMetadata } from "mcp-use/react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { Link } from "react-router";
 import { z } from "zod";
+import { getLineBadgeColor } from "../shared/lineBadge";
+import { OccupancyIndicator } from "../shared/OccupancyIndicator";
+import { PlatformBadge } from "../shared/PlatformBadge";
 import "../styles.css";
 
-interface Departure {
+type BoardType = "departure" | "arrival";
+
+interface BoardEntry {
   line: string;
+  category?: string;
+  operator?: string;
+  platform?: string;
+  platformPlanned?: string;
+  platformActual?: string;
+  platformChanged?: boolean;
+  delayMinutes?: number;
+  occupancy?: { firstClass?: "low" | "medium" | "high"; secondClass?: "low" | "medium" | "high" };
+  cancellation?: "cancelled" | "partial";
+}
+
+interface Departure extends BoardEntry {
   destination: string;
   departurePlanned: string;
   departureActual?: string;
-  platform?: string;
-  delayMinutes?: number;
+}
+
+interface Arrival extends BoardEntry {
+  origin: string;
+  arrivalPlanned: string;
+  arrivalActual?: string;
+}
+
+interface BoardFilters {
+  categories?: string[];
+  line?: string;
+  destination?: string;
+  platforms?: string[];
+  datetime?: string;
+  windowMinutes?: number;
 }
 
 interface DeparturesBoardProps {
   station: string;
+  type?: BoardType;
   departures: Departure[];
+  arrivals?: Arrival[];
+  filters?: BoardFilters;
+  limit?: number;
+  refreshSeconds?: number;
   generatedAt: string;
   [key: string]: unknown;
 }
 
+interface DeparturesBoardState {
+  filters?: BoardFilters;
+  [key: string]: unknown;
+}
+
+interface BoardRow extends BoardEntry {
+  label: string;
+  timePlanned: string;
+  timeActual?: string;
+}
+
 export const widgetMetadata: WidgetMetadata = {
-  description: "Live departure board showing upcoming trains from a Swiss transit station.",
+  description: "Live departure or arrival board showing upcoming trains at a Swiss transit station.",
   props: z.object({
     station: z.string(),
+    type: z.enum(["departure", "arrival"]).optional(),
     departures: z.any(),
+    arrivals: z.any().optional(),
+    filters: z.any().optional(),
+    limit: z.number().optional(),
+    refreshSeconds: z.number().optional(),
     generatedAt: z.string(),
   }),
   exposeAsTool: false,
@@ -36,20 +87,199 @@ const formatTime = (iso: string) => {
   return new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
 };
 
-const getLineBadgeColor = (line: string) => {
-  if (line.startsWith("IC")) return "bg-red-600";
-  if (line.startsWith("IR")) return "bg-red-500";
-  if (line.startsWith("S")) return "bg-blue-500";
-  if (line.startsWith("RE")) return "bg-orange-500";
-  if (line.startsWith("TGV")) return "bg-purple-600";
-  if (line.startsWith("EC") || line.startsWith("EN")) return "bg-gray-700";
-  return "bg-teal-500";
+const DEFAULT_REFRESH_SECONDS = 30;
+// How long a changed delay or platform stays highlighted
+const CHANGE_HIGHLIGHT_MS = 6000;
+// Typing filters the rows right away; the server only sees the destination once typing pauses
+const DESTINATION_DEBOUNCE_MS = 600;
+
+const formatCountdown = (iso: string, now: number) => {
+  const minutes = Math.round((new Date(iso).getTime() - now) / 60000);
+  if (minutes <= 0) return "now";
+  if (minutes < 60) return `in ${minutes} min`;
+  return `in ${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const rowKey = (row: BoardRow) => `${row.line}|${row.timePlanned}|${row.label}`;
+
+// Rows whose delay or platform differs from the previous snapshot
+const findChangedRows = (previous: BoardRow[], next: BoardRow[]) => {
+  const before = new Map(previous.map((row) => [rowKey(row), row]));
+  const changed = new Set<string>();
+  for (const row of next) {
+    const prev = before.get(rowKey(row));
+    if (!prev) continue;
+    if ((prev.delayMinutes || 0) !== (row.delayMinutes || 0)) changed.add(`${rowKey(row)}|delay`);
+    if ((prev.platform || "") !== (row.platform || "")) changed.add(`${rowKey(row)}|platform`);
+  }
+  return changed;
+};
+
+const toRows = (board: DeparturesBoardProps): BoardRow[] =>
+  board.type === "arrival"
+    ? (board.arrivals || []).map((a) => ({ ...a, label: `from ${a.origin}`, timePlanned: a.arrivalPlanned, timeActual: a.arrivalActual }))
+    : (board.departures || []).map((d) => ({ ...d, label: d.destination, timePlanned: d.departurePlanned, timeActual: d.departureActual }));
+
+const unique = (values: (string | undefined)[]) =>
+  [...new Set(values.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b, "de-CH", { numeric: true }));
+
+const applyFilters = (rows: BoardRow[], filters: BoardFilters) =>
+  rows.filter((row) => {
+    if (filters.categories?.length && !filters.categories.includes(row.category || "")) return false;
+    if (filters.platforms?.length && !filters.platforms.includes(row.platform || "")) return false;
+    if (filters.destination && !row.label.toLowerCase().includes(filters.destination.toLowerCase())) return false;
+    return true;
+  });
+
+// The server already dropped whatever the board was fetched with didn't match, so any
+// filter that lets more through than that needs a refetch rather than a client re-filter
+const widensServerFilters = (fetched: BoardFilters, next: BoardFilters) => {
+  const widensList = (before?: string[], after?: string[]) =>
+    !!before?.length && (!after?.length || after.some((v) => !before.includes(v)));
+  return (
+    (!!fetched.line && next.line !== fetched.line) ||
+    widensList(fetched.categories, next.categories) ||
+    widensList(fetched.platforms, next.platforms) ||
+    (!!fetched.destination && !next.destination?.toLowerCase().includes(fetched.destination.toLowerCase())) ||
+    (!!fetched.windowMinutes && (!next.windowMinutes || next.windowMinutes > fetched.windowMinutes)) ||
+    next.datetime !== fetched.datetime
+  );
+};
+
+const toggleValue = (values: string[] | undefined, value: string) => {
+  const next = values?.includes(value) ? values.filter((v) => v !== value) : [...(values || []), value];
+  return next.length > 0 ? next : undefined;
+};
+
+const FilterChip: React.FC<{ label: string; active: boolean; onClick: () => void }> = ({ label, active, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`px-2.5 py-1 text-xs font-medium rounded-full transition-all ${
+      active
+        ? "bg-blue-500 text-white shadow-sm"
+        : "bg-surface-elevated text-secondary hover:bg-surface border border-default"
+    }`}
+  >
+    {label}
+  </button>
+);
+
+// get_departures returns its widget props as structuredContent, with empty lists when nothing matches
+const parseBoard = (result: CallToolResponse): DeparturesBoardProps | null => {
+  const structured = (result as { structuredContent?: DeparturesBoardProps })?.structuredContent;
+  return Array.isArray(structured?.departures) ? structured : null;
 };
 
 const DeparturesBoard: React.FC = () => {
-  const { props } = useWidget<DeparturesBoardProps>();
+  const { props, callTool, state, setState } = useWidget<DeparturesBoardProps, DeparturesBoardState>();
+  const [localBoard, setLocalBoard] = useState<DeparturesBoardProps | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [lastRefresh, setLastRefresh] = useState<string | null>(null);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [changed, setChanged] = useState<Set<string>>(new Set());
+  const [isVisible, setIsVisible] = useState(() => typeof document === "undefined" || document.visibilityState !== "hidden");
+
+  const board = localBoard || props;
+  const boardType: BoardType = board?.type || "departure";
+  const filters: BoardFilters = state?.filters || props?.filters || {};
+  const [destinationInput, setDestinationInput] = useState(filters.destination || "");
+
+  const refreshSeconds = props?.refreshSeconds ?? DEFAULT_REFRESH_SECONDS;
+
+  const loadBoard = useCallback(
+    async (type: BoardType, nextFilters: BoardFilters, background = false) => {
+      if (!board?.station) return;
+      if (!background) setIsSwitching(true);
+      try {
+        const result = await callTool("get_departures", {
+          station: board.station,
+          limit: board.limit || Math.max(board.departures?.length || 0, board.arrivals?.length || 0, 10),
+          type,
+          ...nextFilters,
+          ...(board.refreshSeconds !== undefined && { refreshSeconds: board.refreshSeconds }),
+        });
+        const data = parseBoard(result);
+        // Errors come back as plain text without structuredContent; empty boards still carry it
+        if (!data) throw new Error(result?.content?.find((c) => c.type === "text")?.text || "Empty response");
+        // Only a refresh of the same board can have "changed" rows
+        if (type === board.type || (type === "departure" && !board.type)) {
+          setChanged(findChangedRows(toRows(board), toRows(data)));
+        }
+        setLocalBoard(data);
+        setLastRefresh(new Date().toISOString());
+        setRefreshError(null);
+      } catch (error) {
+        console.error("Failed to load board:", error);
+        setRefreshError(error instanceof Error ? error.message : "Refresh failed");
+      } finally {
+        if (!background) setIsSwitching(false);
+      }
+    },
+    [callTool, board]
+  );
 
-  if (!props?.departures) {
+  // Intervals would otherwise capture a stale board and filters
+  const refreshRef = useRef<() => void>(() => {});
+  refreshRef.current = () => {
+    if (!isSwitching) loadBoard(boardType, filters, true);
+  };
+
+  useEffect(() => {
+    const onVisibilityChange = () => setIsVisible(document.visibilityState !== "hidden");
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  // Countdowns tick independently of polling
+  useEffect(() => {
+    if (!isVisible) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible || refreshSeconds <= 0 || !board?.station) return;
+    const timer = setInterval(() => refreshRef.current(), refreshSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [isVisible, refreshSeconds, board?.station]);
+
+  // Catch up immediately when the widget becomes visible again after a pause; the board and
+  // filters come from refreshRef, so only the staleness check needs these dependencies
+  const updatedAt = lastRefresh || board?.generatedAt;
+  useEffect(() => {
+    if (!isVisible || refreshSeconds <= 0 || !updatedAt) return;
+    if (Date.now() - new Date(updatedAt).getTime() > refreshSeconds * 1000) refreshRef.current();
+  }, [isVisible, refreshSeconds, updatedAt]);
+
+  useEffect(() => {
+    if (changed.size === 0) return;
+    const timer = setTimeout(() => setChanged(new Set()), CHANGE_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [changed]);
+
+  const handleTypeChange = (type: BoardType) => {
+    if (type !== boardType) loadBoard(type, filters);
+  };
+
+  const updateFilters = async (next: BoardFilters) => {
+    await setState({ ...state, filters: next });
+    if (widensServerFilters(board?.filters || {}, next)) await loadBoard(boardType, next);
+  };
+
+  const applyDestinationRef = useRef<() => void>(() => {});
+  applyDestinationRef.current = () => {
+    const destination = destinationInput.trim() || undefined;
+    if (destination !== filters.destination) updateFilters({ ...filters, destination });
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => applyDestinationRef.current(), DESTINATION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [destinationInput]);
+
+  if (!board?.departures) {
     return (
       <McpUseProvider debugger viewControls autoSize>
         <AppsSDKUIProvider linkComponent={Link}>
@@ -61,6 +291,17 @@ const DeparturesBoard: React.FC = () => {
     );
   }
 
+  const allRows = toRows(board);
+  // Drop trains that have already left (or arrived) since the last refresh
+  const upcoming = allRows.filter((row) => {
+    const time = row.timeActual || row.timePlanned;
+    return !time || new Date(time).getTime() > now - 30000;
+  });
+  const rows = applyFilters(upcoming, { ...filters, destination: destinationInput.trim() || undefined });
+  const categories = unique([...allRows.map((r) => r.category), ...(filters.categories || [])]);
+  const platforms = unique([...allRows.map((r) => r.platform), ...(filters.platforms || [])]);
+  const hasFilters = !!(filters.categories?.length || filters.platforms?.length || destinationInput.trim() || filters.line);
+
   return (
     <McpUseProvider debugger viewControls autoSize>
       <AppsSDKUIProvider linkComponent={Link}>
@@ -73,63 +314,160 @@ const DeparturesBoard: React.FC = () => {
                   <path d="M12.5 7H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
                 </svg>
                 <span className="text-white font-semibold text-sm tracking-wide">
-                  Departures
+                  {boardType === "arrival" ? "Arrivals" : "Departures"}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                {refreshError && (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded bg-white/90 text-red-700 font-medium"
+                    title={refreshError}
+                  >
+                    Refresh failed
+                  </span>
+                )}
+                <span className="text-white/70 text-xs">
+                  Updated {formatTime(updatedAt || board.generatedAt)}
+                  {refreshSeconds > 0 && (isVisible ? " · live" : " · paused")}
                 </span>
               </div>
-              <span className="text-white/70 text-xs">
-                Updated {formatTime(props.generatedAt)}
-              </span>
             </div>
           </div>
 
           <div className="p-5 space-y-4">
-            <h1 className="text-xl font-bold text-default">{props.station}</h1>
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h1 className="text-xl font-bold text-default">{board.station}</h1>
+              <div className="flex gap-1">
+                {(["departure", "arrival"] as const).map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => handleTypeChange(type)}
+                    disabled={isSwitching}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-full transition-all disabled:opacity-50 ${
+                      boardType === type
+                        ? "bg-blue-500 text-white shadow-sm"
+                        : "bg-surface-elevated text-secondary hover:bg-surface border border-default"
+                    }`}
+                  >
+                    {type === "departure" ? "Departures" : "Arrivals"}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {(categories.length > 1 || platforms.length > 1 || hasFilters) && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-1">
+                  {categories.map((category) => (
+                    <FilterChip
+                      key={`c-${category}`}
+                      label={category}
+                      active={!!filters.categories?.includes(category)}
+                      onClick={() => updateFilters({ ...filters, categories: toggleValue(filters.categories, category) })}
+                    />
+                  ))}
+                  {filters.line && (
+                    <FilterChip
+                      label={`Line ${filters.line} ✕`}
+                      active
+                      onClick={() => updateFilters({ ...filters, line: undefined })}
+                    />
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-xs text-tertiary mr-1">Pl.</span>
+                  {platforms.map((platform) => (
+                    <FilterChip
+                      key={`p-${platform}`}
+                      label={platform}
+                      active={!!filters.platforms?.includes(platform)}
+                      onClick={() => updateFilters({ ...filters, platforms: toggleValue(filters.platforms, platform) })}
+                    />
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={destinationInput}
+                    onChange={(e) => setDestinationInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && applyDestinationRef.current()}
+                    onBlur={() => applyDestinationRef.current()}
+                    placeholder={boardType === "arrival" ? "Filter by origin" : "Filter by destination"}
+                    className="flex-1 px-3 py-1.5 text-xs rounded-lg bg-surface border border-default text-default"
+                  />
+                  {hasFilters && (
+                    <button
+                      onClick={() => {
+                        setDestinationInput("");
+                        updateFilters({});
+                      }}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
 
             <div className="space-y-2">
-              {props.departures.map((dep: Departure, i: number) => (
-                <div
-                  key={i}
-                  className="bg-surface border border-default rounded-xl p-4 flex items-center gap-4 hover:border-blue-500/50 transition-colors"
-                >
-                  <div className="text-center min-w-[60px]">
-                    <div className="text-xl font-semibold text-default tabular-nums">
-                      {formatTime(dep.departureActual || dep.departurePlanned)}
-                    </div>
-                    {dep.delayMinutes && dep.delayMinutes > 0 && (
-                      <div className="text-xs text-red-500 font-medium">
-                        +{dep.delayMinutes}′
+              {rows.length === 0 && (
+                <div className="text-center py-8 text-secondary">
+                  <p className="font-medium">No {boardType === "arrival" ? "arrivals" : "departures"} found</p>
+                </div>
+              )}
+              {rows.map((row) => {
+                const key = rowKey(row);
+                const delayChanged = changed.has(`${key}|delay`);
+                const platformChanged = changed.has(`${key}|platform`);
+                return (
+                  <div
+                    key={key}
+                    className="bg-surface border border-default rounded-xl p-4 flex items-center gap-4 hover:border-blue-500/50 transition-colors"
+                  >
+                    <div className="text-center min-w-[60px]">
+                      <div className={`text-xl font-semibold text-default tabular-nums ${row.cancellation === "cancelled" ? "line-through opacity-60" : ""}`}>
+                        {formatTime(row.timeActual || row.timePlanned)}
                       </div>
-                    )}
-                  </div>
-
-                  <div className="min-w-[60px]">
-                    <span className={`px-2 py-1 text-xs font-bold text-white rounded ${getLineBadgeColor(dep.line)}`}>
-                      {dep.line}
-                    </span>
-                  </div>
+                      {row.delayMinutes !== undefined && row.delayMinutes > 0 && (
+                        <div className={`text-xs text-red-500 font-medium ${delayChanged ? "animate-pulse" : ""}`}>
+                          +{row.delayMinutes}′
+                        </div>
+                      )}
+                      {row.cancellation === "cancelled" ? (
+                        <div className="text-[10px] text-red-500 font-medium">Cancelled</div>
+                      ) : (
+                        <div className="text-[10px] text-tertiary tabular-nums">
+                          {formatCountdown(row.timeActual || row.timePlanned, now)}
+                        </div>
+                      )}
+                    </div>
 
-                  <div className="flex-1 min-w-0">
-                    <span className="text-default font-medium truncate block">
-                      {dep.destination}
-                    </span>
-                  </div>
+                    <div className="min-w-[60px]">
+                      <span className={`px-2 py-1 text-xs font-bold text-white rounded ${getLineBadgeColor(row.category)}`}>
+                        {row.line}
+                      </span>
+                    </div>
 
-                  {dep.platform && (
-                    <div className="text-right">
-                      <span
-                        className={`text-xs px-2 py-1 rounded ${
-                          dep.platform.includes("!")
-                            ? "bg-red-500/20 text-red-600 dark:text-red-400 font-medium"
-                            : "text-tertiary bg-surface-elevated"
-                        }`}
-                        title={dep.platform.includes("!") ? "⚠️ Platform changed!" : undefined}
-                      >
-                        Pl. {dep.platform}
+                    <div className="flex-1 min-w-0">
+                      <span className="text-default font-medium truncate block">
+                        {row.label}
                       </span>
+                      {row.cancellation === "partial" && (
+                        <span className="text-xs text-orange-500 font-medium">Partially cancelled</span>
+                      )}
                     </div>
-                  )}
-                </div>
-              ))}
+
+                    <OccupancyIndicator occupancy={row.occupancy} />
+
+                    <PlatformBadge
+                      stop={row}
+                      verbose
+                      className={`px-2 py-1 ${platformChanged ? "animate-pulse ring-2 ring-amber-400" : ""}`}
+                    />
+                  </div>
+                );
+              })}
             </div>
 
             <div className="pt-3 border-t border-default">
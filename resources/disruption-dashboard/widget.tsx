@@ -0,0 +1,389 @@
+import { AppsSDKUIProvider } from "@openai/apps-sdk-ui/components/AppsSDKUIProvider";
+import { McpUseProvider, useWidget, type CallToolResponse, type WidgetMetadata } from "mcp-use/react";
+import React, { useCallback, useState } from "react";
+import { Link } from "react-router";
+import { z } from "zod";
+import { getLineBadgeColor } from "../shared/lineBadge";
+import "../styles.css";
+
+type DisruptionStatus = "normal" | "minor_delays" | "major_delays" | "disrupted";
+
+interface LineDisruption {
+  line: string;
+  category?: string;
+  direction: string;
+  sampled: number;
+  onTimePercent: number;
+  averageDelayMinutes: number;
+  maxDelayMinutes: number;
+  cancellations: number;
+}
+
+interface DelayBucket {
+  label: string;
+  count: number;
+}
+
+interface DelayedRoute {
+  route: string;
+  from: string;
+  to: string;
+  line: string;
+  scheduledDeparture: string;
+  delayMinutes: number;
+}
+
+interface DisruptionDashboardProps {
+  station: string;
+  checkedAt: string;
+  routesChecked: string[];
+  totalConnectionsChecked: number;
+  delayedConnectionsCount: number;
+  cancelledOrMissing: number;
+  averageDelayMinutes: number;
+  maxDelayMinutes: number;
+  onTimePercent: number;
+  lines: LineDisruption[];
+  delayHistogram: DelayBucket[];
+  delayedRoutes: DelayedRoute[];
+  status: DisruptionStatus;
+  summary: string;
+  [key: string]: unknown;
+}
+
+interface AlternativeConnection {
+  id: string;
+  departureTime: string;
+  arrivalTime: string;
+  durationMinutes: number;
+  transfersCount: number;
+  legs: { type: "walk" | "ride"; line?: { name: string; category?: string } }[];
+}
+
+interface AlternativeResult {
+  loading: boolean;
+  error?: string;
+  connections?: AlternativeConnection[];
+}
+
+export const widgetMetadata: WidgetMetadata = {
+  description: "Disruption dashboard for a Swiss transit station: service status, per-line punctuality, delay distribution, and alternatives for delayed routes.",
+  props: z.object({
+    station: z.string(),
+    checkedAt: z.string(),
+    routesChecked: z.array(z.string()),
+    totalConnectionsChecked: z.number(),
+    delayedConnectionsCount: z.number(),
+    cancelledOrMissing: z.number(),
+    averageDelayMinutes: z.number(),
+    maxDelayMinutes: z.number(),
+    onTimePercent: z.number(),
+    lines: z.any(),
+    delayHistogram: z.any(),
+    delayedRoutes: z.any(),
+    status: z.enum(["normal", "minor_delays", "major_delays", "disrupted"]),
+    summary: z.string(),
+  }),
+  exposeAsTool: false,
+};
+
+const STATUS_STYLES: Record<DisruptionStatus, { label: string; className: string }> = {
+  normal: { label: "✅ Normal service", className: "bg-emerald-500/20 text-emerald-600 dark:text-emerald-400" },
+  minor_delays: { label: "🟡 Minor delays", className: "bg-yellow-500/20 text-yellow-600 dark:text-yellow-400" },
+  major_delays: { label: "🟠 Major delays", className: "bg-orange-500/20 text-orange-600 dark:text-orange-400" },
+  disrupted: { label: "⚠️ Disrupted", className: "bg-red-500/20 text-red-600 dark:text-red-400" },
+};
+
+const DELAYED_PREVIEW = 6;
+
+const formatTime = (iso: string) => {
+  if (!iso) return "--:--";
+  return new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
+};
+
+const getOnTimeColor = (percent: number) => {
+  if (percent >= 90) return "text-emerald-500";
+  if (percent >= 70) return "text-yellow-500";
+  return "text-red-500";
+};
+
+// check_disruptions and find_connections both return their widget props as structuredContent
+const parseStructured = <T,>(result: CallToolResponse, key: string): T | null => {
+  const structured = (result as { structuredContent?: Record<string, unknown> })?.structuredContent;
+  return structured && key in structured ? (structured as T) : null;
+};
+
+const DelayHistogram: React.FC<{ buckets: DelayBucket[] }> = ({ buckets }) => {
+  const max = Math.max(1, ...buckets.map((b) => b.count));
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-medium text-secondary uppercase tracking-wide">Delay distribution</div>
+      <div className="flex items-end gap-2 h-24">
+        {buckets.map((bucket, i) => (
+          <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end gap-1 h-full">
+            <span className="text-[10px] text-tertiary tabular-nums">{bucket.count}</span>
+            <div
+              className={`w-full rounded-t ${
+                bucket.label === "Cancelled" ? "bg-red-500" : i === 0 ? "bg-emerald-500" : i < 3 ? "bg-yellow-500" : "bg-orange-500"
+              }`}
+              style={{ height: `${(bucket.count / max) * 100}%`, minHeight: bucket.count > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {buckets.map((bucket) => (
+          <span key={bucket.label} className="flex-1 text-center text-[10px] text-tertiary">
+            {bucket.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const LineTable: React.FC<{ lines: LineDisruption[] }> = ({ lines }) => (
+  <div className="space-y-2">
+    <div className="text-xs font-medium text-secondary uppercase tracking-wide">By line</div>
+    <div className="rounded-lg border border-default overflow-hidden">
+      <table className="w-full text-xs">
+        <thead className="bg-surface">
+          <tr className="text-left text-tertiary">
+            <th className="px-3 py-2 font-medium">Line</th>
+            <th className="px-3 py-2 font-medium">Direction</th>
+            <th className="px-3 py-2 font-medium text-right">On time</th>
+            <th className="px-3 py-2 font-medium text-right">Avg delay</th>
+            <th className="px-3 py-2 font-medium text-right">Cancelled</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-default">
+          {lines.map((line) => (
+            <tr key={`${line.line}|${line.direction}`} className="bg-surface-elevated">
+              <td className="px-3 py-2">
+                <span className={`px-1.5 py-0.5 text-[10px] font-bold text-white rounded ${getLineBadgeColor(line.category)}`}>
+                  {line.line}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-default truncate max-w-[140px]">{line.direction}</td>
+              <td className={`px-3 py-2 text-right font-medium tabular-nums ${getOnTimeColor(line.onTimePercent)}`}>
+                {line.onTimePercent}%
+                <span className="text-tertiary font-normal"> ({line.sampled})</span>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums text-default">
+                {line.averageDelayMinutes > 0 ? `+${line.averageDelayMinutes}′` : "–"}
+              </td>
+              <td className={`px-3 py-2 text-right tabular-nums ${line.cancellations > 0 ? "text-red-500 font-medium" : "text-tertiary"}`}>
+                {line.cancellations}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const DisruptionDashboard: React.FC = () => {
+  const { props, callTool } = useWidget<DisruptionDashboardProps>();
+  const [localResult, setLocalResult] = useState<DisruptionDashboardProps | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [alternatives, setAlternatives] = useState<Record<string, AlternativeResult>>({});
+  const [showAllDelayed, setShowAllDelayed] = useState(false);
+
+  const result = localResult || props;
+
+  const handleRefresh = useCallback(async () => {
+    if (!result?.station) return;
+    setIsRefreshing(true);
+    try {
+      const response = await callTool("check_disruptions", { station: result.station });
+      const data = parseStructured<DisruptionDashboardProps>(response, "status");
+      if (!data) throw new Error("Empty response");
+      setLocalResult(data);
+      setAlternatives({});
+      setRefreshError(null);
+    } catch (error) {
+      console.error("Failed to refresh disruptions:", error);
+      setRefreshError(error instanceof Error ? error.message : "Refresh failed");
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [callTool, result?.station]);
+
+  const handleFindAlternative = useCallback(
+    async (route: DelayedRoute) => {
+      const key = `${route.line}|${route.scheduledDeparture}`;
+      setAlternatives((prev) => ({ ...prev, [key]: { loading: true } }));
+      try {
+        const response = await callTool("find_connections", {
+          from: route.from,
+          to: route.to,
+          datetime: route.scheduledDeparture,
+          limit: 4,
+        });
+        const data = parseStructured<{ connections: AlternativeConnection[] }>(response, "connections");
+        // The delayed train itself usually comes back too
+        const connections = (data?.connections || []).filter(
+          (c) => !c.legs.some((leg) => leg.line?.name === route.line) || c.departureTime !== route.scheduledDeparture
+        );
+        setAlternatives((prev) => ({ ...prev, [key]: { loading: false, connections } }));
+      } catch (error) {
+        console.error("Failed to find alternative:", error);
+        setAlternatives((prev) => ({ ...prev, [key]: { loading: false, error: "No alternative found" } }));
+      }
+    },
+    [callTool]
+  );
+
+  if (!result?.status) {
+    return (
+      <McpUseProvider debugger viewControls autoSize>
+        <AppsSDKUIProvider linkComponent={Link}>
+          <div className="bg-surface-elevated border border-default rounded-2xl p-8 text-center">
+            <p className="text-secondary">Checking for disruptions...</p>
+          </div>
+        </AppsSDKUIProvider>
+      </McpUseProvider>
+    );
+  }
+
+  const status = STATUS_STYLES[result.status];
+  const lines = result.lines || [];
+  const delayedRoutes = result.delayedRoutes || [];
+  const visibleRoutes = showAllDelayed ? delayedRoutes : delayedRoutes.slice(0, DELAYED_PREVIEW);
+
+  return (
+    <McpUseProvider debugger viewControls autoSize>
+      <AppsSDKUIProvider linkComponent={Link}>
+        <div className="bg-surface-elevated border border-default rounded-2xl overflow-hidden">
+          <div className="bg-gradient-to-r from-red-600 to-red-700 px-5 py-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <svg className="w-5 h-5 text-white" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z" />
+                </svg>
+                <span className="text-white font-semibold text-sm tracking-wide">Service Status</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {refreshError && (
+                  <span className="text-xs px-2 py-0.5 rounded bg-white/90 text-red-700 font-medium" title={refreshError}>
+                    Refresh failed
+                  </span>
+                )}
+                <span className="text-white/70 text-xs">Checked {formatTime(result.checkedAt)}</span>
+                <button
+                  onClick={handleRefresh}
+                  disabled={isRefreshing}
+                  className="p-1 rounded text-white/80 hover:text-white hover:bg-white/10 disabled:opacity-50"
+                  title="Refresh"
+                >
+                  <svg className={`w-4 h-4 ${isRefreshing ? "animate-spin" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-5 space-y-5">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h1 className="text-xl font-bold text-default">{result.station}</h1>
+              <span className={`px-2.5 py-1 text-xs font-semibold rounded-full ${status.className}`}>{status.label}</span>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                { label: "On time", value: `${result.onTimePercent}%`, className: getOnTimeColor(result.onTimePercent) },
+                { label: "Avg delay", value: `${result.averageDelayMinutes}′`, className: "text-default" },
+                { label: "Max delay", value: `${result.maxDelayMinutes}′`, className: "text-default" },
+                { label: "Cancelled", value: `${result.cancelledOrMissing}`, className: result.cancelledOrMissing > 0 ? "text-red-500" : "text-default" },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-surface border border-default rounded-lg py-2">
+                  <div className={`text-lg font-semibold tabular-nums ${stat.className}`}>{stat.value}</div>
+                  <div className="text-[10px] text-tertiary">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {result.delayHistogram?.length > 0 && <DelayHistogram buckets={result.delayHistogram} />}
+
+            {lines.length > 0 && <LineTable lines={lines} />}
+
+            {delayedRoutes.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-secondary uppercase tracking-wide">Delayed</div>
+                {visibleRoutes.map((route) => {
+                  const key = `${route.line}|${route.scheduledDeparture}`;
+                  const alternative = alternatives[key];
+                  return (
+                    <div key={key} className="bg-surface border border-default rounded-xl p-3 space-y-2">
+                      <div className="flex items-center gap-3">
+                        <span className="font-mono text-sm tabular-nums text-default">{formatTime(route.scheduledDeparture)}</span>
+                        <span className="text-xs font-semibold text-default">{route.line}</span>
+                        <span className="flex-1 min-w-0 text-xs text-secondary truncate">{route.route}</span>
+                        <span className="text-xs text-red-500 font-medium">+{route.delayMinutes}′</span>
+                        <button
+                          onClick={() => handleFindAlternative(route)}
+                          disabled={alternative?.loading}
+                          className="shrink-0 px-2.5 py-1 text-xs font-medium rounded-full bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                        >
+                          {alternative?.loading ? "Searching..." : "Find alternative"}
+                        </button>
+                      </div>
+                      {alternative && !alternative.loading && (
+                        <div className="pl-2 border-l-2 border-blue-500/40 space-y-1">
+                          {alternative.error && <p className="text-xs text-tertiary">{alternative.error}</p>}
+                          {alternative.connections?.length === 0 && (
+                            <p className="text-xs text-tertiary">No other connections around that time.</p>
+                          )}
+                          {alternative.connections?.map((c) => (
+                            <div key={c.id} className="flex items-center gap-2 text-xs">
+                              <span className="font-mono tabular-nums text-default">
+                                {formatTime(c.departureTime)} → {formatTime(c.arrivalTime)}
+                              </span>
+                              <span className="text-tertiary">
+                                {c.durationMinutes}min · {c.transfersCount === 0 ? "direct" : `${c.transfersCount} transfer${c.transfersCount > 1 ? "s" : ""}`}
+                              </span>
+                              <span className="flex gap-1">
+                                {c.legs.filter((leg) => leg.type === "ride" && leg.line).map((leg, i) => (
+                                  <span key={i} className={`px-1.5 py-0.5 text-[10px] font-bold text-white rounded ${getLineBadgeColor(leg.line?.category)}`}>
+                                    {leg.line?.name}
+                                  </span>
+                                ))}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {delayedRoutes.length > visibleRoutes.length && (
+                  <button
+                    onClick={() => setShowAllDelayed(true)}
+                    className="w-full py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Show {delayedRoutes.length - visibleRoutes.length} more
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="pt-3 border-t border-default space-y-1">
+              <div className="text-xs text-tertiary">Probed {result.totalConnectionsChecked} trains on:</div>
+              <ul className="text-xs text-tertiary list-disc pl-4">
+                {result.routesChecked.map((route) => (
+                  <li key={route}>{route}</li>
+                ))}
+              </ul>
+              <p className="text-xs text-tertiary">Live data from transport.opendata.ch</p>
+            </div>
+          </div>
+        </div>
+      </AppsSDKUIProvider>
+    </McpUseProvider>
+  );
+};
+
+export default DisruptionDashboard;
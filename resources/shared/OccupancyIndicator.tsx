@@ -0,0 +1,42 @@
+import React from "react";
+
+type OccupancyLevel = "low" | "medium" | "high";
+
+interface OccupancyIndicatorProps {
+  occupancy?: { firstClass?: OccupancyLevel; secondClass?: OccupancyLevel };
+  className?: string;
+}
+
+const LEVELS: Record<OccupancyLevel, { filled: number; color: string; label: string }> = {
+  low: { filled: 1, color: "text-emerald-500", label: "Low occupancy expected" },
+  medium: { filled: 2, color: "text-yellow-500", label: "Medium occupancy expected" },
+  high: { filled: 3, color: "text-red-500", label: "High occupancy expected" },
+};
+
+const PersonIcon: React.FC<{ filled: boolean }> = ({ filled }) => (
+  <svg className={`w-2.5 h-3 ${filled ? "" : "opacity-25"}`} viewBox="0 0 10 12" fill="currentColor">
+    <circle cx="5" cy="2.5" r="2.5" />
+    <path d="M0 12c0-3.3 2.2-5.5 5-5.5s5 2.2 5 5.5z" />
+  </svg>
+);
+
+// Shows the 2nd class forecast; 1st class is listed in the tooltip
+export const OccupancyIndicator: React.FC<OccupancyIndicatorProps> = ({ occupancy, className = "" }) => {
+  const level = occupancy?.secondClass || occupancy?.firstClass;
+  if (!level) return null;
+  const { filled, color, label } = LEVELS[level];
+  const title = [
+    occupancy?.secondClass && `2nd class: ${occupancy.secondClass}`,
+    occupancy?.firstClass && `1st class: ${occupancy.firstClass}`,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <span className={`inline-flex items-end gap-px ${color} ${className}`} title={`${label} (${title})`} aria-label={label}>
+      {[1, 2, 3].map((i) => (
+        <PersonIcon key={i} filled={i <= filled} />
+      ))}
+    </span>
+  );
+};
+
+export default OccupancyIndicator;
@@ -0,0 +1,33 @@
+import React from "react";
+
+interface PlatformBadgeProps {
+  stop: { platform?: string; platformPlanned?: string; platformChanged?: boolean };
+  // Spell out "Platform changed 7 → 12" instead of the compact "Pl. 7 → 12"
+  verbose?: boolean;
+  className?: string;
+}
+
+export const PlatformBadge: React.FC<PlatformBadgeProps> = ({ stop, verbose = false, className = "" }) => {
+  if (!stop.platform) return null;
+  const changed = !!stop.platformChanged;
+  // Feeds that only flag the change don't tell us the old platform
+  const from = stop.platformPlanned ? ` from ${stop.platformPlanned}` : "";
+  return (
+    <span
+      className={`text-xs px-1.5 py-0.5 rounded ${
+        changed
+          ? "bg-red-500/20 text-red-600 dark:text-red-400 font-medium"
+          : "text-tertiary bg-surface"
+      } ${className}`}
+      title={changed ? `⚠️ Platform changed${from} to ${stop.platform}. Check departure boards.` : undefined}
+    >
+      {changed
+        ? stop.platformPlanned
+          ? `${verbose ? "Platform changed" : "Pl."} ${stop.platformPlanned} → ${stop.platform}`
+          : `${verbose ? "Platform changed to" : "Pl."} ${stop.platform}${verbose ? "" : " (new)"}`
+        : `Pl. ${stop.platform}`}
+    </span>
+  );
+};
+
+export default PlatformBadge;
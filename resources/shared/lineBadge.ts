@@ -0,0 +1,20 @@
+// Badge colours keyed by the upstream line category (exact match, not prefix:
+// "SN" is a night service and "STB" a regional railway, neither is an S-Bahn)
+const CATEGORY_COLORS: Record<string, string> = {
+  IC: "bg-red-600",
+  ICE: "bg-red-600",
+  ICN: "bg-red-600",
+  IR: "bg-red-500",
+  RE: "bg-orange-500",
+  S: "bg-blue-500",
+  SN: "bg-indigo-700",
+  TGV: "bg-purple-600",
+  EC: "bg-gray-700",
+  EN: "bg-gray-700",
+  NJ: "bg-gray-700",
+};
+
+export const getLineBadgeColor = (category?: string) => {
+  if (!category) return "bg-gray-500";
+  return CATEGORY_COLORS[category.toUpperCase()] || "bg-teal-500";
+};
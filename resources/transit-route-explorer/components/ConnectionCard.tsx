@@ -1,5 +1,8 @@
 import React, { useState } from "react";
-import type { Connection, Leg, TransferRisk, WeatherSample, WeatherInsight } from "../types";
+import { getLineBadgeColor } from "../../shared/lineBadge";
+import { OccupancyIndicator } from "../../shared/OccupancyIndicator";
+import { PlatformBadge } from "../../shared/PlatformBadge";
+import type { Connection, Leg, MissingForecast, StopTime, TransferRisk, WeatherSample, WeatherInsight } from "../types";
 
 const formatTime = (isoString: string) => {
   if (!isoString) return "--:--";
@@ -10,35 +13,34 @@ const formatTime = (isoString: string) => {
   });
 };
 
-const isPlatformChanged = (platform?: string) => platform?.includes("!");
-
-const PlatformBadge: React.FC<{ platform?: string; className?: string }> = ({ platform, className = "" }) => {
-  if (!platform) return null;
-  const changed = isPlatformChanged(platform);
-  return (
-    <span
-      className={`text-xs px-1.5 py-0.5 rounded ${
-        changed 
-          ? "bg-red-500/20 text-red-600 dark:text-red-400 font-medium" 
-          : "text-tertiary bg-surface"
-      } ${className}`}
-      title={changed ? "⚠️ Platform changed! Check departure boards." : undefined}
-    >
-      Pl. {platform}
-    </span>
-  );
+// One note per cause, so a failed request isn't reported as a trip too far ahead
+const missingForecastNotes = (missing: MissingForecast[] = []) => {
+  const stations = (reason: MissingForecast["reason"]) =>
+    missing.filter((m) => m.reason === reason).map((m) => m.station).join(", ");
+  const beyond = stations("out_of_window");
+  const failed = stations("fetch_failed");
+  return [
+    beyond && `No forecast yet for ${beyond}: beyond the 16-day forecast window.`,
+    failed && `Weather service didn't respond for ${failed}; try again later.`,
+  ].filter((note): note is string => !!note);
 };
 
 interface ConnectionCardProps {
   connection: Connection;
   isExpanded?: boolean;
+  onFindAlternative?: (connection: Connection) => void;
+  isFindingAlternative?: boolean;
 }
 
 export const ConnectionCard: React.FC<ConnectionCardProps> = ({
   connection,
   isExpanded: defaultExpanded = false,
+  onFindAlternative,
+  isFindingAlternative = false,
 }) => {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const isCancelled = !!connection.reliability?.unusable;
+  const isPartlyCancelled = !isCancelled && connection.legs.some((leg) => leg.cancellation);
 
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -47,17 +49,6 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
     return `${hours}h ${mins}min`;
   };
 
-  const getLineBadgeColor = (line?: string) => {
-    if (!line) return "bg-gray-500";
-    if (line.startsWith("IC")) return "bg-red-600";
-    if (line.startsWith("IR")) return "bg-red-500";
-    if (line.startsWith("S")) return "bg-blue-500";
-    if (line.startsWith("RE")) return "bg-orange-500";
-    if (line.startsWith("TGV")) return "bg-purple-600";
-    if (line.startsWith("EC") || line.startsWith("EN")) return "bg-gray-700";
-    return "bg-teal-500";
-  };
-
   const getReliabilityColor = (score?: number) => {
     if (!score) return "text-gray-400";
     if (score >= 0.8) return "text-emerald-500";
@@ -84,6 +75,7 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
   };
 
   const getWeatherIcon = (weather?: WeatherInsight) => {
+    if (weather?.horizon === "unavailable" && !weather.samples.length) return "❔";
     if (!weather?.samples?.length) return "⛅";
     const sample = weather.samples[0];
     if (sample.snowfall > 0) return "❄️";
@@ -112,26 +104,32 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
         return "bg-blue-500/20 text-blue-600 dark:text-blue-400";
       case "fewest transfers":
         return "bg-purple-500/20 text-purple-600 dark:text-purple-400";
+      case "cancelled":
+        return "bg-red-500/20 text-red-600 dark:text-red-400";
       default:
         return "bg-gray-500/20 text-gray-600 dark:text-gray-400";
     }
   };
 
   return (
-    <div className="bg-surface border border-default rounded-xl overflow-hidden transition-all duration-200 hover:border-blue-500/50">
+    <div
+      className={`bg-surface border rounded-xl overflow-hidden transition-all duration-200 ${
+        isCancelled ? "border-red-500/50" : "border-default hover:border-blue-500/50"
+      }`}
+    >
       <button
-        className="w-full p-4 text-left"
+        className={`w-full p-4 text-left ${isCancelled ? "opacity-60" : ""}`}
         onClick={() => setIsExpanded(!isExpanded)}
       >
         <div className="flex items-center justify-between gap-4">
           <div className="flex items-center gap-3 min-w-0">
             <div className="text-center">
-              <div className="text-xl font-semibold text-default tabular-nums">
+              <div className={`text-xl font-semibold text-default tabular-nums ${isCancelled ? "line-through" : ""}`}>
                 {formatTime(connection.departureTime)}
               </div>
               {connection.legs[0]?.from.platform && (
                 <div className="mt-0.5">
-                  <PlatformBadge platform={connection.legs[0].from.platform} />
+                  <PlatformBadge stop={connection.legs[0].from} />
                 </div>
               )}
             </div>
@@ -146,7 +144,7 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
               </div>
               {connection.legs[connection.legs.length - 1]?.to.platform && (
                 <div className="mt-0.5">
-                  <PlatformBadge platform={connection.legs[connection.legs.length - 1].to.platform} />
+                  <PlatformBadge stop={connection.legs[connection.legs.length - 1].to} />
                 </div>
               )}
             </div>
@@ -159,9 +157,10 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
                 .map((leg, i) => (
                   <span
                     key={i}
-                    className={`px-2 py-0.5 text-xs font-semibold text-white rounded ${getLineBadgeColor(leg.line)}`}
+                    className={`px-2 py-0.5 text-xs font-semibold text-white rounded ${getLineBadgeColor(leg.line?.category)}`}
+                    title={leg.line?.destination ? `Direction ${leg.line.destination}` : undefined}
                   >
-                    {leg.line}
+                    {leg.line?.name}
                   </span>
                 ))}
             </div>
@@ -189,11 +188,16 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
                   ? "Direct"
                   : `${connection.transfersCount} transfer${connection.transfersCount > 1 ? "s" : ""}`}
               </div>
+              <OccupancyIndicator occupancy={connection.occupancy} className="mt-0.5" />
             </div>
             {connection.weather && (
               <div 
                 className={`flex items-center gap-1 px-2 py-1 rounded-lg ${getWeatherLevelStyle(connection.weather.level)}`}
-                title={connection.weather.reasons.map(r => r.label).join(", ") || "Good weather"}
+                title={
+                  connection.weather.horizon === "unavailable"
+                    ? missingForecastNotes(connection.weather.missing).join(" ") || "Forecast unavailable"
+                    : connection.weather.reasons.map(r => r.label).join(", ") || "Good weather"
+                }
               >
                 <span className="text-base">{getWeatherIcon(connection.weather)}</span>
                 {connection.weather.samples[0] && (
@@ -244,8 +248,38 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
         </div>
       </button>
 
+      {(isCancelled || isPartlyCancelled) && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 border-t border-red-500/30 bg-red-500/10">
+          <span className="text-xs font-medium text-red-600 dark:text-red-400">
+            {isCancelled
+              ? `❌ ${connection.reliability?.reasons.find((r) => r.code === "cancelled")?.label || "Connection cancelled"}`
+              : "⚠️ Partially cancelled, some stops are skipped"}
+          </span>
+          {isCancelled && onFindAlternative && (
+            <button
+              onClick={() => onFindAlternative(connection)}
+              disabled={isFindingAlternative}
+              className="shrink-0 px-2.5 py-1 text-xs font-medium rounded-full bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {isFindingAlternative ? "Searching..." : "Find alternative"}
+            </button>
+          )}
+        </div>
+      )}
+
       {isExpanded && (
         <div className="border-t border-default px-4 py-3 bg-surface-elevated space-y-4">
+          {connection.reliability?.allTransfersProbability !== undefined && (
+            <div className="text-sm text-default" title="Simulated from live delays and typical punctuality of each line">
+              {connection.reliability.transferRisks.length > 0 &&
+                `${Math.round(connection.reliability.allTransfersProbability * 100)}% chance to make all connections, `}
+              {connection.reliability.transferRisks.length > 0 ? "expected" : "Expected"} arrival{" "}
+              {connection.reliability.expectedArrivalDelayMinutes
+                ? `+${connection.reliability.expectedArrivalDelayMinutes} min`
+                : "on time"}
+            </div>
+          )}
+
           {connection.reliability && connection.reliability.reasons.length > 0 && (
             <div className="space-y-2">
               <div className="text-xs font-medium text-secondary uppercase tracking-wide">Risk Factors</div>
@@ -271,6 +305,18 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
             <WeatherPanel weather={connection.weather} />
           )}
 
+          {missingForecastNotes(connection.weather?.missing).map((note) => (
+            <div key={note} className="text-xs text-tertiary">
+              {note}
+            </div>
+          ))}
+
+          {connection.weatherSkipped && (
+            <div className="text-xs text-tertiary">
+              Weather check skipped to stay within the request limit.
+            </div>
+          )}
+
           <LegTimeline legs={connection.legs} />
         </div>
       )}
@@ -303,25 +349,47 @@ const TransferRisksTable: React.FC<{ risks: TransferRisk[] }> = ({ risks }) => {
             <tr className="text-left text-tertiary">
               <th className="px-3 py-2 font-medium">Station</th>
               <th className="px-3 py-2 font-medium text-center">Margin</th>
+              <th className="px-3 py-2 font-medium text-center">Needed</th>
+              <th className="px-3 py-2 font-medium text-center">Chance</th>
               <th className="px-3 py-2 font-medium text-center">Risk</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-default">
             {risks.map((risk, i) => (
-              <tr key={i} className="bg-surface-elevated">
-                <td className="px-3 py-2">
-                  <span className="text-default">{risk.fromStation}</span>
-                  {risk.isBigStation && (
-                    <span className="ml-1 text-tertiary text-[10px]">(large station)</span>
-                  )}
-                </td>
-                <td className="px-3 py-2 text-center font-mono tabular-nums text-default">
-                  {risk.marginMinutes}min
-                </td>
-                <td className="px-3 py-2 text-center">
-                  {getRiskBadge(risk.riskLevel)}
-                </td>
-              </tr>
+              <React.Fragment key={i}>
+                <tr className="bg-surface-elevated">
+                  <td className="px-3 py-2">
+                    <span className="text-default">{risk.fromStation}</span>
+                    {risk.isBigStation && (
+                      <span className="ml-1 text-tertiary text-[10px]">(large station)</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-center font-mono tabular-nums text-default">
+                    {risk.marginMinutes}min
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-center font-mono tabular-nums ${risk.slackMinutes < 1 ? "text-red-500" : "text-tertiary"}`}
+                    title={`${risk.slackMinutes >= 0 ? `${risk.slackMinutes}min to spare` : `${-risk.slackMinutes}min short`}`}
+                  >
+                    {risk.requiredMinutes}min
+                  </td>
+                  <td className="px-3 py-2 text-center font-mono tabular-nums text-default">
+                    {risk.holdProbability !== undefined ? `${Math.round(risk.holdProbability * 100)}%` : "–"}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    {getRiskBadge(risk.riskLevel)}
+                  </td>
+                </tr>
+                {risk.fallback && (
+                  <tr className="bg-red-500/5">
+                    <td colSpan={5} className="px-3 py-1.5 text-tertiary">
+                      If you miss this: next {risk.fallback.line?.category || risk.fallback.line?.name || "connection"} at{" "}
+                      {formatTime(risk.fallback.departureTime)}, arrive{" "}
+                      {risk.fallback.arrivalDelayMinutes > 0 ? `+${risk.fallback.arrivalDelayMinutes} min` : "on time"}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
@@ -341,9 +409,18 @@ const WeatherPanel: React.FC<{ weather: WeatherInsight }> = ({ weather }) => {
     return "⛅";
   };
 
+  // Ranges only show when the hours around the trip disagree
+  const formatRange = (range: [number, number] | undefined, value: number, format: (n: number) => string) =>
+    range && format(range[0]) !== format(range[1]) ? `${format(range[0])}–${format(range[1])}` : format(value);
+
   const formatWeather = (sample: WeatherSample) => {
-    const parts: string[] = [`${Math.round(sample.temperature)}°C`];
-    if (sample.precipitation > 0) parts.push(`${sample.precipitation.toFixed(1)}mm`);
+    const parts: string[] = [`${formatRange(sample.temperatureRange, sample.temperature, (n) => `${Math.round(n)}`)}°C`];
+    if (sample.precipitation > 0 || sample.precipitationRange?.[1]) {
+      parts.push(`${formatRange(sample.precipitationRange, sample.precipitation, (n) => n.toFixed(1))}mm`);
+    }
+    if (sample.precipitationProbability !== undefined && sample.precipitationProbability > 0) {
+      parts.push(`${sample.precipitationProbability}% rain`);
+    }
     if (sample.snowfall > 0) parts.push(`${sample.snowfall.toFixed(1)}cm snow`);
     if (sample.windGusts > 30) parts.push(`${Math.round(sample.windGusts)}km/h gusts`);
     return parts.join(", ");
@@ -354,6 +431,8 @@ const WeatherPanel: React.FC<{ weather: WeatherInsight }> = ({ weather }) => {
     return new Date(iso).toLocaleTimeString("de-CH", { hour: "2-digit", minute: "2-digit" });
   };
 
+  const formatLead = (hours: number) => (hours < 48 ? `${hours}h` : `${Math.round(hours / 24)} days`);
+
   const sortedSamples = [...weather.samples].sort((a, b) => 
     new Date(a.time).getTime() - new Date(b.time).getTime()
   );
@@ -362,6 +441,14 @@ const WeatherPanel: React.FC<{ weather: WeatherInsight }> = ({ weather }) => {
     <div className="space-y-2">
       <div className="flex items-center gap-2">
         <div className="text-xs font-medium text-secondary uppercase tracking-wide">Weather Conditions</div>
+        {weather.horizon !== "now" && (
+          <span
+            className="text-[10px] text-tertiary"
+            title="Forecasts further ahead are less certain and count less towards the weather risk"
+          >
+            {formatLead(Math.max(...weather.samples.map((s) => s.leadHours)))} ahead · {Math.round(weather.confidence * 100)}% confidence
+          </span>
+        )}
         {weather.reasons.length > 0 && (
           <div className="flex gap-1">
             {weather.reasons.map((reason, i) => (
@@ -406,10 +493,46 @@ const WeatherPanel: React.FC<{ weather: WeatherInsight }> = ({ weather }) => {
   );
 };
 
+const IntermediateStops: React.FC<{ stops: StopTime[] }> = ({ stops }) => (
+  <div className="ml-1 my-2 space-y-1 border-l-2 border-dashed border-default pl-3">
+    {stops.map((stop, i) => {
+      const arrival = stop.arrivalActual || stop.arrivalPlanned;
+      const departure = stop.departureActual || stop.departurePlanned;
+      const isLate = !!(stop.arrivalActual || stop.departureActual);
+      return (
+        <div key={i} className="flex items-baseline gap-2 text-xs">
+          <span className={`font-mono tabular-nums ${isLate ? "text-red-500" : "text-tertiary"} ${stop.cancelled ? "line-through" : ""}`}>
+            {arrival && departure && arrival !== departure
+              ? `${formatTime(arrival)}–${formatTime(departure)}`
+              : formatTime(departure || arrival || stop.timePlanned)}
+          </span>
+          <span className={`text-secondary ${stop.cancelled ? "line-through" : ""}`}>{stop.name}</span>
+          {stop.cancelled ? (
+            <span className="text-red-500 font-medium">No stop</span>
+          ) : (
+            <PlatformBadge stop={stop} />
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
 const LegTimeline: React.FC<{ legs: Leg[] }> = ({ legs }) => {
+  const [expandedLegs, setExpandedLegs] = useState<Set<number>>(new Set());
+
   // Only show ride legs, skip walks
   const rideLegs = legs.filter(l => l.type === "ride");
 
+  const toggleStops = (index: number) => {
+    setExpandedLegs((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
   // Calculate transfer time between consecutive ride legs (includes walk time)
   const getTransferTime = (rideIndex: number): number | null => {
     if (rideIndex >= rideLegs.length - 1) return null;
@@ -439,7 +562,13 @@ const LegTimeline: React.FC<{ legs: Leg[] }> = ({ legs }) => {
                     {formatTime(leg.from.timeActual || leg.from.timePlanned)}
                   </span>
                   <span className="text-sm font-medium text-default">{leg.from.name}</span>
-                  <PlatformBadge platform={leg.from.platform} />
+                  <PlatformBadge stop={leg.from} verbose />
+                  {leg.cancellation === "cancelled" && (
+                    <span className="text-xs text-red-500 font-medium">Cancelled</span>
+                  )}
+                  {leg.cancellation === "partial" && (
+                    <span className="text-xs text-orange-500 font-medium">Partially cancelled</span>
+                  )}
                   {leg.delayMinutes && leg.delayMinutes > 0 && (
                     <span className="text-xs text-red-500 font-medium">
                       +{leg.delayMinutes}′
@@ -448,16 +577,32 @@ const LegTimeline: React.FC<{ legs: Leg[] }> = ({ legs }) => {
                 </div>
 
                 <div className="text-xs text-secondary ml-1 my-2">
-                  <span className="font-medium">{leg.line}</span>
-                  {leg.operator && <span className="text-tertiary"> · {leg.operator}</span>}
+                  <span className="font-medium">{leg.line?.name}</span>
+                  {leg.line?.destination && <span> → {leg.line.destination}</span>}
+                  {leg.line?.operator && <span className="text-tertiary"> · {leg.line.operator}</span>}
+                  <OccupancyIndicator occupancy={leg.occupancy} className="ml-2 align-middle" />
+                  {leg.stops && leg.stops.length > 0 && (
+                    <button
+                      onClick={() => toggleStops(index)}
+                      className="ml-2 text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {expandedLegs.has(index) ? "Hide stops" : `${leg.stops.length} stop${leg.stops.length > 1 ? "s" : ""}`}
+                    </button>
+                  )}
                 </div>
 
+                {leg.stops && expandedLegs.has(index) && <IntermediateStops stops={leg.stops} />}
+
                 <div className="flex items-baseline gap-2">
                   <span className="font-mono text-sm tabular-nums text-default">
                     {formatTime(leg.to.timeActual || leg.to.timePlanned)}
                   </span>
-                  <span className="text-sm font-medium text-default">{leg.to.name}</span>
-                  <PlatformBadge platform={leg.to.platform} />
+                  <span className={`text-sm font-medium text-default ${leg.to.cancelled ? "line-through" : ""}`}>{leg.to.name}</span>
+                  {leg.to.cancelled ? (
+                    <span className="text-xs text-red-500 font-medium">No stop</span>
+                  ) : (
+                    <PlatformBadge stop={leg.to} verbose />
+                  )}
                 </div>
               </div>
             </div>
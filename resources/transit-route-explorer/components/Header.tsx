@@ -1,9 +1,12 @@
 import React from "react";
+import type { ConnectionFilters } from "../types";
 
 interface HeaderProps {
   from: string;
   to: string;
   datetimeISO: string;
+  filters?: ConnectionFilters;
+  profile?: string; // reliability scoring profile, shown unless it is the default
   generatedAt: string;
   onRefresh: () => void;
   isRefreshing?: boolean;
@@ -13,6 +16,8 @@ export const Header: React.FC<HeaderProps> = ({
   from,
   to,
   datetimeISO,
+  filters,
+  profile,
   generatedAt,
   onRefresh,
   isRefreshing = false,
@@ -57,6 +62,24 @@ export const Header: React.FC<HeaderProps> = ({
     });
   };
 
+  const getFilterLabels = (f?: ConnectionFilters) => {
+    if (!f) return [];
+    const labels: string[] = [];
+    if (f.via?.length) labels.push(`via ${f.via.join(", ")}`);
+    if (f.transportations?.length) {
+      const modes = f.transportations.map((m) => m.charAt(0).toUpperCase() + m.slice(1));
+      labels.push(modes.length === 1 ? `${modes[0]}s only` : modes.join(" / "));
+    }
+    if (f.direct) labels.push("Direct only");
+    if (f.sleeper) labels.push("Sleeper");
+    if (f.couchette) labels.push("Couchette");
+    if (f.bike) labels.push("Bikes allowed");
+    return labels;
+  };
+
+  const filterLabels = getFilterLabels(filters);
+  if (profile && profile !== "default") filterLabels.push(`${profile.charAt(0).toUpperCase() + profile.slice(1)} scoring`);
+
   return (
     <div className="space-y-3">
       {/* Route title */}
@@ -68,6 +91,20 @@ export const Header: React.FC<HeaderProps> = ({
         <h1 className="text-xl font-bold text-default">{to}</h1>
       </div>
 
+      {/* Active search filters */}
+      {filterLabels.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {filterLabels.map((label) => (
+            <span
+              key={label}
+              className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-500/20 text-blue-600 dark:text-blue-400"
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Meta info row */}
       <div className="flex items-center justify-between flex-wrap gap-2">
         <div className="flex items-center gap-4 text-sm text-secondary">
@@ -1,6 +1,6 @@
 import React from "react";
 
-export type SortMode = "recommended" | "fastest" | "fewest-transfers" | "earliest";
+export type SortMode = "recommended" | "fastest" | "fewest-transfers" | "earliest" | "least-crowded";
 
 interface SortControlsProps {
   sortMode: SortMode;
@@ -16,6 +16,7 @@ export const SortControls: React.FC<SortControlsProps> = ({
     { value: "fastest", label: "Fastest" },
     { value: "fewest-transfers", label: "Fewest transfers" },
     { value: "earliest", label: "Earliest departure" },
+    { value: "least-crowded", label: "Least crowded" },
   ];
 
   return (
@@ -1,11 +1,11 @@
 import { AppsSDKUIProvider } from "@openai/apps-sdk-ui/components/AppsSDKUIProvider";
-import { McpUseProvider, useWidget, type WidgetMetadata } from "mcp-use/react";
-import React, { useState, useMemo, useCallback } from "react";
+import { McpUseProvider, useWidget, type CallToolResponse, type WidgetMetadata } from "mcp-use/react";
+import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { Link } from "react-router";
 import { ConnectionCard } from "./components/ConnectionCard";
 import { Header } from "./components/Header";
 import { SortControls, type SortMode } from "./components/SortControls";
-import { propSchema, type TransitWidgetProps, type Connection } from "./types";
+import { propSchema, type TransitWidgetProps, type Connection, type ConnectionCursors } from "./types";
 import "../styles.css";
 
 export const widgetMetadata: WidgetMetadata = {
@@ -15,6 +15,55 @@ export const widgetMetadata: WidgetMetadata = {
   exposeAsTool: false,
 };
 
+// find_connections returns its widget props as structuredContent; older hosts only pass text
+const parseToolResult = (result: CallToolResponse): Partial<TransitWidgetProps> | null => {
+  const structured = (result as { structuredContent?: Partial<TransitWidgetProps> })?.structuredContent;
+  if (structured?.connections) return structured;
+  for (const item of result?.content || []) {
+    if (item.type === "text" && item.text) {
+      try {
+        const data = JSON.parse(item.text);
+        if (data.connections) return data;
+      } catch {}
+    }
+  }
+  return null;
+};
+
+// Each page is tagged on its own, so re-derive the tags across the merged list. The
+// recommendation stays with the one already shown; fastest and fewest are recomputed.
+const RANKING_TAGS = ["fastest", "fewest transfers", "recommended"];
+
+const mergeConnections = (current: Connection[], incoming: Connection[]) => {
+  const byId = new Map(current.map((c) => [c.id, c]));
+  for (const connection of incoming) byId.set(connection.id, connection);
+  const merged = [...byId.values()].sort(
+    (a, b) => new Date(a.departureTime).getTime() - new Date(b.departureTime).getTime()
+  );
+
+  const usable = merged.filter((c) => !c.reliability?.unusable);
+  const recommendedId =
+    [...current, ...incoming].find((c) => c.tags.includes("recommended") && !c.reliability?.unusable)?.id ?? usable[0]?.id;
+  const fastest = Math.min(...usable.map((c) => c.durationMinutes));
+  const fewest = Math.min(...usable.map((c) => c.transfersCount));
+  return merged.map((c) => {
+    const tags = c.tags.filter((tag) => !RANKING_TAGS.includes(tag));
+    if (!c.reliability?.unusable) {
+      if (c.durationMinutes === fastest) tags.push("fastest");
+      if (c.transfersCount === fewest) tags.push("fewest transfers");
+      if (c.id === recommendedId) tags.push("recommended");
+    }
+    return { ...c, tags };
+  });
+};
+
+const CROWDING_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+const getCrowdingRank = (connection: Connection) => {
+  const level = connection.occupancy?.secondClass || connection.occupancy?.firstClass;
+  return level ? CROWDING_RANK[level] : 3;
+};
+
 const TransitRouteExplorer: React.FC = () => {
   const { props, callTool, state, setState } = useWidget<TransitWidgetProps>();
   const [sortMode, setSortMode] = useState<SortMode>(
@@ -22,8 +71,13 @@ const TransitRouteExplorer: React.FC = () => {
   );
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [localConnections, setLocalConnections] = useState<Connection[] | null>(null);
+  const [localCursors, setLocalCursors] = useState<ConnectionCursors | null>(null);
+  const [pagingDirection, setPagingDirection] = useState<"earlier" | "later" | null>(null);
+  const [alternativeFor, setAlternativeFor] = useState<string | null>(null);
+  const autoAlternativeRef = useRef(false);
 
   const connections = localConnections || props?.connections || [];
+  const cursors = localCursors || props?.cursors;
 
   const sortedConnections = useMemo(() => {
     if (!connections.length) return [];
@@ -39,6 +93,16 @@ const TransitRouteExplorer: React.FC = () => {
             new Date(a.departureTime).getTime() -
             new Date(b.departureTime).getTime()
         );
+      case "least-crowded":
+        // Unknown occupancy sorts after known forecasts
+        return sorted.sort((a, b) => {
+          const diff = getCrowdingRank(a) - getCrowdingRank(b);
+          if (diff !== 0) return diff;
+          return (
+            new Date(a.departureTime).getTime() -
+            new Date(b.departureTime).getTime()
+          );
+        });
       case "recommended":
       default:
         return sorted.sort((a, b) => {
@@ -68,19 +132,14 @@ const TransitRouteExplorer: React.FC = () => {
         from: props.query.from,
         to: props.query.to,
         datetime: new Date().toISOString(),
+        ...props.query.filters,
+        profile: props.query.profile,
       });
 
-      if (result?.content) {
-        for (const item of result.content) {
-          if (item.type === "text" && item.text) {
-            try {
-              const data = JSON.parse(item.text);
-              if (data.connections) {
-                setLocalConnections(data.connections);
-              }
-            } catch {}
-          }
-        }
+      const data = parseToolResult(result);
+      if (data?.connections) {
+        setLocalConnections(data.connections);
+        setLocalCursors(data.cursors || null);
       }
     } catch (error) {
       console.error("Failed to refresh:", error);
@@ -89,6 +148,83 @@ const TransitRouteExplorer: React.FC = () => {
     }
   }, [callTool, props?.query]);
 
+  const handlePage = useCallback(
+    async (direction: "earlier" | "later") => {
+      if (!cursors?.[direction]) return;
+      setPagingDirection(direction);
+      try {
+        const result = await callTool("find_connections", {
+          from: props.query.from,
+          to: props.query.to,
+          cursor: cursors[direction],
+          ...props.query.filters,
+          profile: props.query.profile,
+        });
+
+        const data = parseToolResult(result);
+        if (data?.connections) {
+          setLocalConnections(mergeConnections(connections, data.connections));
+          if (data.cursors) {
+            setLocalCursors({ ...cursors, [direction]: data.cursors[direction] });
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to load ${direction} connections:`, error);
+      } finally {
+        setPagingDirection(null);
+      }
+    },
+    [callTool, props?.query, cursors, connections]
+  );
+
+  // Re-query from the cancelled departure onwards and merge whatever runs instead
+  const handleFindAlternative = useCallback(
+    async (cancelled: Connection) => {
+      setAlternativeFor(cancelled.id);
+      try {
+        const result = await callTool("find_connections", {
+          from: props.query.from,
+          to: props.query.to,
+          datetime: cancelled.departureTime,
+          ...props.query.filters,
+          profile: props.query.profile,
+        });
+
+        const data = parseToolResult(result);
+        if (data?.connections) {
+          setLocalConnections(mergeConnections(connections, data.connections));
+        }
+      } catch (error) {
+        console.error("Failed to find alternative:", error);
+      } finally {
+        setAlternativeFor(null);
+      }
+    },
+    [callTool, props?.query, connections]
+  );
+
+  // Look for an alternative straight away when the top result is cancelled
+  useEffect(() => {
+    if (autoAlternativeRef.current || !props?.connections?.length) return;
+    const first = props.connections[0];
+    if (!first.reliability?.unusable) return;
+    autoAlternativeRef.current = true;
+    handleFindAlternative(first);
+  }, [props?.connections, handleFindAlternative]);
+
+  const renderPageButton = (direction: "earlier" | "later") =>
+    cursors?.[direction] && (
+      <button
+        onClick={() => handlePage(direction)}
+        disabled={pagingDirection !== null}
+        className="w-full py-2 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-500/10 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {pagingDirection === direction
+          ? "Loading..."
+          : direction === "earlier" ? "↑ Earlier connections" : "↓ Later connections"}
+      </button>
+    );
+
   if (!props?.query || !props?.connections) {
     return (
       <McpUseProvider debugger viewControls autoSize>
@@ -125,6 +261,8 @@ const TransitRouteExplorer: React.FC = () => {
               from={fromName}
               to={toName}
               datetimeISO={props.query.datetimeISO}
+              filters={props.query.filters}
+              profile={props.query.profile}
               generatedAt={props.generatedAtISO}
               onRefresh={handleRefresh}
               isRefreshing={isRefreshing}
@@ -133,6 +271,7 @@ const TransitRouteExplorer: React.FC = () => {
             <SortControls sortMode={sortMode} onSortChange={handleSortChange} />
 
             <div className="space-y-3">
+              {renderPageButton("earlier")}
               {sortedConnections.length === 0 ? (
                 <div className="text-center py-8 text-secondary">
                   <p className="font-medium">No connections found</p>
@@ -143,14 +282,17 @@ const TransitRouteExplorer: React.FC = () => {
                     key={connection.id}
                     connection={connection}
                     isExpanded={index === 0}
+                    onFindAlternative={handleFindAlternative}
+                    isFindingAlternative={alternativeFor === connection.id}
                   />
                 ))
               )}
+              {renderPageButton("later")}
             </div>
 
             <div className="pt-3 border-t border-default">
               <p className="text-xs text-tertiary">
-                Reliability scores based on transfers, transfer time, and delays.
+                Reliability scores based on transfers, transfer time, delays, cancellations, and past punctuality.
               </p>
             </div>
           </div>
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { RequestBudgetExceeded } from "./errors";
+
+// Caps the number of upstream HTTP calls a single tool invocation may make.
+// Calls outside withRequestBudget are not limited. Cache hits are free, and an invocation
+// never joins another one's in-flight call (see responseCache), so it pays for what it fetches.
+
+interface RequestBudget {
+  limit: number;
+  used: number;
+}
+
+export const DEFAULT_REQUEST_BUDGET = Number(process.env.REQUEST_BUDGET) || 20;
+
+const storage = new AsyncLocalStorage<RequestBudget>();
+
+export function withRequestBudget<T>(fn: () => Promise<T>, limit = DEFAULT_REQUEST_BUDGET): Promise<T> {
+  return storage.run({ limit, used: 0 }, fn);
+}
+
+// Identity of the running invocation's budget, undefined outside withRequestBudget
+export function currentRequestBudget(): object | undefined {
+  return storage.getStore();
+}
+
+export function consumeRequestBudget(): void {
+  const budget = storage.getStore();
+  if (!budget) return;
+  if (budget.used >= budget.limit) throw new RequestBudgetExceeded(budget.limit);
+  budget.used++;
+}
+
+export function remainingRequestBudget(): number {
+  const budget = storage.getStore();
+  return budget ? budget.limit - budget.used : Infinity;
+}
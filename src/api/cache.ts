@@ -0,0 +1,142 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { currentRequestBudget } from "./budget";
+
+export interface CacheEntry {
+  value: unknown;
+  expires: number;
+}
+
+export interface CacheBackend {
+  load(): Promise<[string, CacheEntry][]>;
+  save(entries: [string, CacheEntry][]): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  maxEntries?: number;
+  backend?: CacheBackend;
+  // Identical loads are only shared within the same scope object; undefined shares globally
+  scope?: () => object | undefined;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const PERSIST_DELAY_MS = 1000;
+
+export function createFileCacheBackend(filePath: string): CacheBackend {
+  return {
+    async load() {
+      try {
+        return JSON.parse(await readFile(filePath, "utf8"));
+      } catch {
+        return [];
+      }
+    },
+    async save(entries) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, JSON.stringify(entries));
+    },
+  };
+}
+
+// LRU cache with per-entry TTL and coalescing of identical in-flight loads.
+// Map iteration order doubles as recency order: hits are re-inserted at the end.
+export function createResponseCache(options: ResponseCacheOptions = {}) {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const backend = options.backend;
+  const entries = new Map<string, CacheEntry>();
+  const sharedInFlight = new Map<string, Promise<unknown>>();
+  const scopedInFlight = new WeakMap<object, Map<string, Promise<unknown>>>();
+  let hydrated: Promise<void> | undefined;
+  let persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const hydrate = () => {
+    hydrated ??= (async () => {
+      if (!backend) return;
+      const now = Date.now();
+      for (const [key, entry] of await backend.load()) {
+        if (entry.expires > now) entries.set(key, entry);
+      }
+      evict();
+    })();
+    return hydrated;
+  };
+
+  const inFlightFor = (scope: object | undefined) => {
+    if (!scope) return sharedInFlight;
+    let inFlight = scopedInFlight.get(scope);
+    if (!inFlight) scopedInFlight.set(scope, (inFlight = new Map()));
+    return inFlight;
+  };
+
+  const evict = () => {
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  };
+
+  const schedulePersist = () => {
+    if (!backend || persistTimer) return;
+    persistTimer = setTimeout(() => {
+      persistTimer = undefined;
+      const now = Date.now();
+      backend.save([...entries].filter(([, entry]) => entry.expires > now)).catch(() => {});
+    }, PERSIST_DELAY_MS);
+    persistTimer.unref?.();
+  };
+
+  const get = (key: string): unknown | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+    entries.set(key, entry);
+    return entry.value;
+  };
+
+  const set = (key: string, value: unknown, ttlMs: number) => {
+    entries.delete(key);
+    entries.set(key, { value, expires: Date.now() + ttlMs });
+    evict();
+    schedulePersist();
+  };
+
+  return {
+    async getOrLoad<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+      // Joining another scope's load would charge it our calls and hand us its failures
+      const inFlight = inFlightFor(options.scope?.());
+      await hydrate();
+
+      const cached = get(key);
+      if (cached !== undefined) return cached as T;
+
+      const pending = inFlight.get(key);
+      if (pending) return pending as Promise<T>;
+
+      const promise = load()
+        .then((value) => {
+          set(key, value, ttlMs);
+          return value;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    },
+
+    clear() {
+      entries.clear();
+      schedulePersist();
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
+
+export const responseCache = createResponseCache({
+  maxEntries: Number(process.env.CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES,
+  backend: process.env.CACHE_FILE ? createFileCacheBackend(path.resolve(process.env.CACHE_FILE)) : undefined,
+  scope: currentRequestBudget,
+});
@@ -0,0 +1,72 @@
+export class TransitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class UpstreamError extends TransitError {
+  constructor(message: string, public readonly host: string) {
+    super(message);
+  }
+}
+
+export class UpstreamTimeout extends UpstreamError {
+  constructor(host: string, public readonly timeoutMs: number) {
+    super(`${host} did not respond within ${timeoutMs}ms`, host);
+  }
+}
+
+export class RateLimited extends UpstreamError {
+  constructor(host: string, public readonly retryAfterMs?: number) {
+    super(`${host} is rate limiting requests`, host);
+  }
+}
+
+export class UpstreamHttpError extends UpstreamError {
+  constructor(host: string, public readonly status: number) {
+    super(`${host} returned HTTP ${status}`, host);
+  }
+}
+
+export class FixtureNotFound extends TransitError {
+  constructor(public readonly url: string) {
+    super(`No recorded fixture for ${url}`);
+  }
+}
+
+export class StationNotFound extends TransitError {
+  constructor(public readonly station: string) {
+    super(`Station "${station}" not found`);
+  }
+}
+
+export class NoConnections extends TransitError {
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`No connections found from "${from}" to "${to}"`);
+  }
+}
+
+export class InvalidCursor extends TransitError {
+  constructor(public readonly cursor: string) {
+    super("Invalid pagination cursor");
+  }
+}
+
+export class DataFileUnreadable extends TransitError {
+  constructor(public readonly filePath: string, reason: string) {
+    super(`Could not read ${filePath}: ${reason}`);
+  }
+}
+
+export class RequestBudgetExceeded extends TransitError {
+  constructor(public readonly limit: number) {
+    super(`Request budget of ${limit} upstream calls exhausted`);
+  }
+}
+
+export class UnknownReliabilityProfile extends TransitError {
+  constructor(public readonly profile: string, public readonly available: string[]) {
+    super(`Unknown reliability profile "${profile}". Available: ${available.join(", ")}`);
+  }
+}
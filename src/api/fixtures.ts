@@ -0,0 +1,119 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { FixtureNotFound } from "./errors";
+
+// Record/replay of upstream HTTP responses for offline development.
+// FIXTURE_MODE=record captures every response under FIXTURE_DIR, FIXTURE_MODE=replay
+// serves them back keyed by normalized request URL without touching the network.
+
+type FixtureMode = "off" | "record" | "replay";
+
+interface Fixture {
+  url: string;
+  status: number;
+  body: unknown;
+  recordedAt: string;
+}
+
+// Query params that shift with the clock; ignored when no exact replay match exists
+const VOLATILE_PARAMS = ["date", "time", "datetime", "start_date", "end_date"];
+
+let replayIndex: Promise<{ exact: Map<string, Fixture>; loose: Map<string, Fixture> }> | undefined;
+
+function getMode(): FixtureMode {
+  const mode = process.env.FIXTURE_MODE;
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.env.FIXTURE_DIR || "fixtures");
+}
+
+export function normalizeUrl(input: string, ignoreVolatile = false): string {
+  const url = new URL(input);
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !ignoreVolatile || !VOLATILE_PARAMS.includes(key))
+    // Stable sort by key only: the order of repeated params such as via[] is significant
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search = new URLSearchParams(params).toString();
+  const pathname = url.pathname.replace(/\/+$/, "");
+  return `${url.protocol}//${url.host.toLowerCase()}${pathname}${search ? `?${search}` : ""}`;
+}
+
+function getFixturePath(url: string): string {
+  const normalized = normalizeUrl(url);
+  const hash = createHash("sha1").update(normalized).digest("hex").slice(0, 16);
+  return path.join(getFixtureDir(), new URL(url).host, `${hash}.json`);
+}
+
+async function loadReplayIndex() {
+  const exact = new Map<string, Fixture>();
+  const loose = new Map<string, Fixture>();
+
+  let files: string[] = [];
+  try {
+    files = await readdir(getFixtureDir(), { recursive: true });
+  } catch {
+    return { exact, loose };
+  }
+
+  for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+    try {
+      const fixture = JSON.parse(await readFile(path.join(getFixtureDir(), file), "utf8")) as Fixture;
+      exact.set(normalizeUrl(fixture.url), fixture);
+      loose.set(normalizeUrl(fixture.url, true), fixture);
+    } catch {
+      // Skip unreadable fixture files
+    }
+  }
+
+  return { exact, loose };
+}
+
+function toResponse(fixture: Fixture): Response {
+  return new Response(JSON.stringify(fixture.body), {
+    status: fixture.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function replay(url: string): Promise<Response> {
+  replayIndex ??= loadReplayIndex();
+  const { exact, loose } = await replayIndex;
+
+  const fixture = exact.get(normalizeUrl(url)) || loose.get(normalizeUrl(url, true));
+  if (!fixture) throw new FixtureNotFound(normalizeUrl(url));
+
+  return toResponse(fixture);
+}
+
+async function record(url: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  const text = await response.text();
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return new Response(text, { status: response.status, headers: response.headers });
+  }
+
+  const fixture: Fixture = { url, status: response.status, body, recordedAt: new Date().toISOString() };
+  const filePath = getFixturePath(url);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(fixture, null, 2));
+
+  return toResponse(fixture);
+}
+
+export async function fetchWithFixtures(url: string, init?: RequestInit): Promise<Response> {
+  switch (getMode()) {
+    case "record":
+      return record(url, init);
+    case "replay":
+      return replay(url);
+    default:
+      return fetch(url, init);
+  }
+}
@@ -0,0 +1,90 @@
+import { FixtureNotFound, RateLimited, UpstreamError, UpstreamHttpError, UpstreamTimeout } from "./errors";
+import { fetchWithFixtures, normalizeUrl } from "./fixtures";
+import { responseCache } from "./cache";
+import { consumeRequestBudget } from "./budget";
+import { acquireToken } from "./ratelimit";
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  // Cache successful responses for this long; identical in-flight requests share one call
+  cacheTtlMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 300;
+const MAX_BACKOFF_MS = 4000;
+const MAX_RETRY_AFTER_MS = 10000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof RateLimited) return error.retryAfterMs === undefined || error.retryAfterMs <= MAX_RETRY_AFTER_MS;
+  if (error instanceof UpstreamHttpError) return error.status >= 500;
+  return error instanceof UpstreamError;
+}
+
+async function attempt(url: string, host: string, options: RequestOptions, timeoutMs: number): Promise<unknown> {
+  consumeRequestBudget();
+  await acquireToken(host);
+
+  let response: Response;
+  try {
+    response = await fetchWithFixtures(url, {
+      headers: options.headers,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    // A missing replay fixture won't appear on retry
+    if (error instanceof FixtureNotFound) throw error;
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new UpstreamTimeout(host, timeoutMs);
+    }
+    throw new UpstreamError(`${host} unreachable: ${error instanceof Error ? error.message : "network error"}`, host);
+  }
+
+  if (response.status === 429) {
+    throw new RateLimited(host, parseRetryAfter(response.headers.get("Retry-After")));
+  }
+  if (!response.ok) throw new UpstreamHttpError(host, response.status);
+
+  return response.json();
+}
+
+export async function getJson<T = unknown>(url: string, options: RequestOptions = {}): Promise<T> {
+  if (options.cacheTtlMs && options.cacheTtlMs > 0) {
+    return responseCache.getOrLoad(normalizeUrl(url), options.cacheTtlMs, () => fetchJson<T>(url, options));
+  }
+  return fetchJson<T>(url, options);
+}
+
+async function fetchJson<T>(url: string, options: RequestOptions): Promise<T> {
+  const host = new URL(url).host;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let i = 0; ; i++) {
+    try {
+      return (await attempt(url, host, options, timeoutMs)) as T;
+    } catch (error) {
+      if (i >= retries || !isRetryable(error)) throw error;
+      const retryAfter = error instanceof RateLimited ? error.retryAfterMs ?? 0 : 0;
+      await sleep(Math.max(retryAfter, backoffDelay(i)));
+    }
+  }
+}
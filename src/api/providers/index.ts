@@ -0,0 +1,34 @@
+import { createOpendataProvider } from "./opendata";
+import type { TransitProvider } from "./types";
+
+export type { TransitProvider } from "./types";
+
+type ProviderFactory = () => TransitProvider;
+
+const factories = new Map<string, ProviderFactory>([
+  ["opendata", () => createOpendataProvider({ baseUrl: process.env.TRANSPORT_API_URL })],
+]);
+
+let activeProvider: TransitProvider | undefined;
+
+export function registerTransitProvider(name: string, factory: ProviderFactory): void {
+  factories.set(name, factory);
+}
+
+export function setTransitProvider(provider: TransitProvider | undefined): void {
+  activeProvider = provider;
+}
+
+// Selected by TRANSIT_PROVIDER (default "opendata") on first use.
+export function getTransitProvider(): TransitProvider {
+  if (activeProvider) return activeProvider;
+
+  const name = process.env.TRANSIT_PROVIDER || "opendata";
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown transit provider "${name}". Available: ${[...factories.keys()].join(", ")}`);
+  }
+
+  activeProvider = factory();
+  return activeProvider;
+}
@@ -0,0 +1,116 @@
+import { getJson } from "../http";
+import type { TransitProvider, TransportLocation, TransportConnection, TransportStationboardEntry } from "./types";
+
+const DEFAULT_BASE_URL = "https://transport.opendata.ch/v1";
+
+// Station names barely change; live boards go stale within a minute
+const CACHE_TTL_MS = {
+  locations: 24 * 60 * 60 * 1000,
+  connections: 60 * 1000,
+  stationboard: 20 * 1000,
+};
+
+// Raw response bodies; opendata.ch sends null rather than omitting unresolved stations
+interface LocationsResponse {
+  stations?: TransportLocation[];
+}
+
+interface ConnectionsResponse {
+  from?: TransportLocation | null;
+  to?: TransportLocation | null;
+  connections?: TransportConnection[];
+}
+
+interface StationboardResponse {
+  station?: TransportLocation | null;
+  stationboard?: TransportStationboardEntry[];
+}
+
+const swissFormat = new Intl.DateTimeFormat("sv-SE", {
+  timeZone: "Europe/Zurich",
+  year: "numeric", month: "2-digit", day: "2-digit",
+  hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+});
+
+// The API reads dates and times as Swiss local time, whatever the server's time zone
+function swissDateTime(datetime: string) {
+  const parts = swissFormat.formatToParts(new Date(datetime));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  return { date: `${part("year")}-${part("month")}-${part("day")}`, time: `${part("hour")}:${part("minute")}` };
+}
+
+export interface OpendataProviderOptions {
+  baseUrl?: string;
+}
+
+export function createOpendataProvider(options: OpendataProviderOptions = {}): TransitProvider {
+  const baseUrl = options.baseUrl || DEFAULT_BASE_URL;
+
+  const request = async <T>(path: string, params: Record<string, string | string[]>, cacheTtlMs: number) => {
+    const url = new URL(`${baseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      for (const v of Array.isArray(value) ? value : [value]) {
+        url.searchParams.append(key, v);
+      }
+    }
+
+    return getJson<T>(url.toString(), {
+      headers: { "User-Agent": "SwissTransitExplorer/1.0", "Accept": "application/json" },
+      cacheTtlMs,
+    });
+  };
+
+  return {
+    name: "opendata",
+
+    async searchLocations(query) {
+      const data = await request<LocationsResponse>("/locations", { query, type: "station" }, CACHE_TTL_MS.locations);
+      return data.stations || [];
+    },
+
+    async findNearbyLocations({ lat, lon }) {
+      const data = await request<LocationsResponse>("/locations", { x: lat.toString(), y: lon.toString(), type: "station" }, CACHE_TTL_MS.locations);
+      return data.stations || [];
+    },
+
+    async getConnections({ from, to, datetime, isArrivalTime = false, limit, filters = {} }) {
+      const params: Record<string, string | string[]> = { from, to, limit: limit.toString() };
+
+      if (filters.via?.length) params["via[]"] = filters.via.slice(0, 5);
+      if (filters.transportations?.length) params["transportations[]"] = filters.transportations;
+      if (filters.direct) params.direct = "1";
+      if (filters.sleeper) params.sleeper = "1";
+      if (filters.couchette) params.couchette = "1";
+      if (filters.bike) params.bike = "1";
+
+      if (datetime) {
+        const { date, time } = swissDateTime(datetime);
+        params.date = date;
+        params.time = time;
+        params.isArrivalTime = isArrivalTime ? "1" : "0";
+      }
+
+      const data = await request<ConnectionsResponse>("/connections", params, CACHE_TTL_MS.connections);
+      return {
+        from: data.from || undefined,
+        to: data.to || undefined,
+        connections: data.connections || [],
+      };
+    },
+
+    async getStationboard({ station, limit, type = "departure", datetime }) {
+      const params: Record<string, string> = { station, limit: limit.toString(), type };
+
+      if (datetime) {
+        const { date, time } = swissDateTime(datetime);
+        params.datetime = `${date} ${time}`;
+      }
+
+      const data = await request<StationboardResponse>("/stationboard", params, CACHE_TTL_MS.stationboard);
+      return {
+        station: data.station || undefined,
+        stationboard: data.stationboard || [],
+      };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import type { ConnectionFilters } from "../../types";
+
+// Transit providers speak the transport.opendata.ch schema. Other backends
+// (OJP, GTFS, fixtures) map their data into these shapes so the normalization
+// and insight code in transport.ts stays backend-agnostic.
+
+// Note: opendata.ch puts latitude in x and longitude in y
+export interface TransportLocation {
+  id?: string;
+  name: string;
+  coordinate?: { x: number; y: number };
+  score?: number;
+  distance?: number; // metres, only set for coordinate queries
+  icon?: string; // "train", "tram", "bus", "ship", "cableway"
+}
+
+// Occupancy forecast: 1 = low, 2 = medium, 3 = high; null when unknown
+export interface TransportCapacity {
+  capacity1st?: number | null;
+  capacity2nd?: number | null;
+}
+
+export interface TransportCheckpoint {
+  station: TransportLocation;
+  arrival?: string;
+  departure?: string;
+  platform?: string;
+  prognosis?: {
+    arrival?: string;
+    departure?: string;
+    platform?: string;
+    cancelled?: boolean; // the train no longer stops here
+  } & TransportCapacity;
+}
+
+export interface TransportSection {
+  journey?: TransportCapacity & {
+    name?: string;
+    category?: string;
+    number?: string;
+    operator?: string;
+    to?: string;
+    passList?: TransportCheckpoint[];
+  };
+  walk?: { duration?: number };
+  departure: TransportCheckpoint;
+  arrival: TransportCheckpoint;
+}
+
+export interface TransportConnection extends TransportCapacity {
+  from: TransportCheckpoint;
+  to: TransportCheckpoint;
+  duration?: string;
+  transfers: number;
+  sections: TransportSection[];
+}
+
+export interface TransportStationboardEntry extends TransportCapacity {
+  stop?: TransportCheckpoint;
+  name?: string;
+  category?: string;
+  number?: string;
+  operator?: string;
+  to?: string;
+  passList?: TransportCheckpoint[];
+}
+
+export interface NearbyQuery {
+  lat: number;
+  lon: number;
+}
+
+export interface ConnectionQuery {
+  from: string;
+  to: string;
+  datetime?: string;
+  isArrivalTime?: boolean;
+  limit: number;
+  filters?: ConnectionFilters;
+}
+
+export interface StationboardQuery {
+  station: string;
+  limit: number;
+  type?: "departure" | "arrival";
+  datetime?: string;
+}
+
+export interface TransitProvider {
+  name: string;
+  searchLocations(query: string): Promise<TransportLocation[]>;
+  findNearbyLocations(query: NearbyQuery): Promise<TransportLocation[]>;
+  getConnections(query: ConnectionQuery): Promise<{
+    from?: TransportLocation;
+    to?: TransportLocation;
+    connections: TransportConnection[];
+  }>;
+  getStationboard(query: StationboardQuery): Promise<{
+    station?: TransportLocation;
+    stationboard: TransportStationboardEntry[];
+  }>;
+}
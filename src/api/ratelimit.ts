@@ -0,0 +1,50 @@
+// Token bucket per upstream host, shared by all tool invocations in this process
+
+interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface Bucket extends BucketConfig {
+  tokens: number;
+  updatedAt: number;
+}
+
+const HOST_LIMITS: Record<string, BucketConfig> = {
+  "transport.opendata.ch": { capacity: 5, refillPerSecond: 2 },
+  "api.open-meteo.com": { capacity: 10, refillPerSecond: 5 },
+};
+const DEFAULT_LIMIT: BucketConfig = { capacity: 10, refillPerSecond: 5 };
+
+const buckets = new Map<string, Bucket>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function getBucket(host: string): Bucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    const config = HOST_LIMITS[host] || DEFAULT_LIMIT;
+    bucket = { ...config, tokens: config.capacity, updatedAt: Date.now() };
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+function refill(bucket: Bucket) {
+  const now = Date.now();
+  const elapsed = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.refillPerSecond);
+  bucket.updatedAt = now;
+}
+
+export async function acquireToken(host: string): Promise<void> {
+  const bucket = getBucket(host);
+  for (;;) {
+    refill(bucket);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - bucket.tokens) / bucket.refillPerSecond) * 1000);
+  }
+}
@@ -1,42 +1,85 @@
-import type { Station, Connection, Leg, WeatherInsight } from "../types";
+import type { Station, TransportMode, NearbyStation, ConnectionFilters, ConnectionCursors, Connection, Leg, StopTime, CancellationStatus, Occupancy, OccupancyLevel, TransferFallback, TransferRisk, WeatherInsight } from "../types";
+import { DEFAULT_PROFILE, reliabilityProfiles } from "../insights/profiles";
 import { calculateReliability } from "../insights/reliability";
 import { getWeatherInsights } from "../insights/weather";
+import { delayHistory } from "../insights/history";
+import { getTransitProvider } from "./providers";
+import { InvalidCursor, NoConnections, RequestBudgetExceeded, StationNotFound, TransitError } from "./errors";
+import type { TransportCapacity, TransportLocation, TransportCheckpoint, TransportConnection, TransportSection, TransportStationboardEntry } from "./providers/types";
 
-const BASE_URL = "https://transport.opendata.ch/v1";
+export type BoardType = "departure" | "arrival";
 
-export interface Departure {
+interface BoardEntry {
   line: string;
+  category?: string;
+  operator?: string;
+  platform?: string;
+  platformPlanned?: string;
+  platformActual?: string;
+  platformChanged?: boolean;
+  delayMinutes?: number;
+  occupancy?: Occupancy;
+  cancellation?: CancellationStatus;
+}
+
+export interface Departure extends BoardEntry {
   destination: string;
   departurePlanned: string;
   departureActual?: string;
-  platform?: string;
-  delayMinutes?: number;
 }
 
-export async function getStationboard(station: string, limit = 10): Promise<{
+export interface Arrival extends BoardEntry {
+  origin: string;
+  arrivalPlanned: string;
+  arrivalActual?: string;
+}
+
+export interface BoardFilters {
+  categories?: string[]; // e.g. ["S", "IR"]
+  line?: string; // e.g. "S12"
+  destination?: string; // substring; matched against the origin on arrival boards
+  platforms?: string[];
+  datetime?: string; // board start, defaults to now
+  windowMinutes?: number; // only entries within this many minutes after the start
+}
+
+// Filtering happens here, so fetch a deeper board to still fill `limit` afterwards
+const FILTERED_BOARD_DEPTH = 150;
+
+export async function getStationboard(
+  station: string,
+  limit = 10,
+  type: BoardType = "departure",
+  filters: BoardFilters = {}
+): Promise<{
   station: string;
+  type: BoardType;
   departures: Departure[];
+  arrivals: Arrival[];
+  filters: BoardFilters;
   generatedAt: string;
 }> {
-  const url = new URL(`${BASE_URL}/stationboard`);
-  url.searchParams.set("station", station);
-  url.searchParams.set("limit", limit.toString());
-
-  const response = await fetch(url.toString(), {
-    headers: { "User-Agent": "SwissTransitExplorer/1.0", "Accept": "application/json" },
-  });
+  const hasFilters = !!(filters.categories?.length || filters.line || filters.destination || filters.platforms?.length || filters.windowMinutes);
+  const fetchLimit = hasFilters ? Math.max(limit, FILTERED_BOARD_DEPTH) : limit;
+  const data = await getTransitProvider().getStationboard({ station, limit: fetchLimit, type, datetime: filters.datetime });
+  if (!data.station && data.stationboard.length === 0) throw new StationNotFound(station);
+
+  const key = type === "arrival" ? "arrival" : "departure";
+  const windowEnd = filters.windowMinutes
+    ? new Date(filters.datetime || Date.now()).getTime() + filters.windowMinutes * 60000
+    : Infinity;
+
+  const matching = data.stationboard
+    .filter((entry) => matchesBoardFilters(entry, filters, type))
+    .filter((entry) => {
+      const time = entry.stop?.[key];
+      return !time || new Date(time).getTime() <= windowEnd;
+    })
+    .slice(0, limit);
 
-  if (!response.ok) throw new Error(`API error: ${response.status}`);
-
-  const data = await response.json();
-  
-  const departures: Departure[] = (data.stationboard || []).map((entry: {
-    stop?: { departure?: string; platform?: string; prognosis?: { departure?: string; platform?: string } };
-    name?: string;
-    to?: string;
-  }) => {
-    const planned = entry.stop?.departure || "";
-    const actual = entry.stop?.prognosis?.departure;
+  const entries = matching.map((entry: TransportStationboardEntry) => {
+    const planned = entry.stop?.[key] || "";
+    const actual = entry.stop?.prognosis?.[key];
     let delayMinutes: number | undefined;
     
     if (planned && actual) {
@@ -44,101 +87,165 @@ export async function getStationboard(station: string, limit = 10): Promise<{
       if (diff > 0) delayMinutes = Math.round(diff);
     }
 
-    return {
+    const base: BoardEntry = {
       line: entry.name || "",
-      destination: entry.to || "",
-      departurePlanned: planned,
-      departureActual: actual && actual !== planned ? actual : undefined,
-      platform: entry.stop?.prognosis?.platform || entry.stop?.platform,
+      ...(entry.category && { category: entry.category }),
+      ...(entry.operator && { operator: entry.operator }),
+      ...normalizePlatform(entry.stop),
       delayMinutes,
+      occupancy: normalizeOccupancy(entry, entry.stop?.prognosis),
     };
+    const cancellation = boardCancellation(entry, type);
+    if (cancellation) base.cancellation = cancellation;
+    return { entry, base, planned, actual: actual && actual !== planned ? actual : undefined };
   });
 
+  const departures: Departure[] = type === "departure"
+    ? entries.map(({ entry, base, planned, actual }) => ({
+        ...base,
+        destination: entry.to || "",
+        departurePlanned: planned,
+        departureActual: actual,
+      }))
+    : [];
+
+  // Arrival boards list the journey from its origin, so the first passList stop is where it came from
+  const arrivals: Arrival[] = type === "arrival"
+    ? entries.map(({ entry, base, planned, actual }) => ({
+        ...base,
+        origin: entry.passList?.[0]?.station?.name || entry.to || "",
+        arrivalPlanned: planned,
+        arrivalActual: actual,
+      }))
+    : [];
+
   return {
     station: data.station?.name || station,
+    type,
     departures,
+    arrivals,
+    filters,
     generatedAt: new Date().toISOString(),
   };
 }
 
-interface TransportLocation {
-  id?: string;
-  name: string;
-  coordinate?: { x: number; y: number };
-}
+const normalizeLineName = (value: string) => value.replace(/\s+/g, "").toUpperCase();
 
-interface TransportCheckpoint {
-  station: TransportLocation;
-  arrival?: string;
-  departure?: string;
-  platform?: string;
-  prognosis?: {
-    arrival?: string;
-    departure?: string;
-    platform?: string;
-  };
-}
+function matchesBoardFilters(entry: TransportStationboardEntry, filters: BoardFilters, type: BoardType): boolean {
+  if (filters.categories?.length) {
+    const category = entry.category?.toUpperCase();
+    if (!category || !filters.categories.some((c) => c.toUpperCase() === category)) return false;
+  }
 
-interface TransportSection {
-  journey?: {
-    name?: string;
-    category?: string;
-    number?: string;
-    operator?: string;
-  };
-  walk?: { duration?: number };
-  departure: TransportCheckpoint;
-  arrival: TransportCheckpoint;
-}
+  if (filters.line) {
+    // "S 12 18455", category "S" + number "12" and "S12" should all match "S12"
+    const wanted = normalizeLineName(filters.line);
+    const name = entry.name || "";
+    const candidates = [
+      normalizeLineName(name),
+      normalizeLineName(name.split(/\s+/).slice(0, 2).join("")),
+      normalizeLineName(`${entry.category || ""}${entry.number || ""}`),
+    ];
+    if (!candidates.includes(wanted)) return false;
+  }
+
+  if (filters.destination) {
+    const place = type === "arrival" ? entry.passList?.[0]?.station?.name || entry.to : entry.to;
+    if (!place?.toLowerCase().includes(filters.destination.toLowerCase())) return false;
+  }
 
-interface TransportConnection {
-  from: TransportCheckpoint;
-  to: TransportCheckpoint;
-  duration?: string;
-  transfers: number;
-  sections: TransportSection[];
+  if (filters.platforms?.length) {
+    const platforms = [entry.stop?.platform, entry.stop?.prognosis?.platform]
+      .filter((p): p is string => !!p)
+      .map((p) => p.replace("!", "").trim());
+    if (!filters.platforms.some((p) => platforms.includes(p.trim()))) return false;
+  }
+
+  return true;
 }
 
 export async function searchStations(query: string, limit = 8): Promise<Station[]> {
-  const url = new URL(`${BASE_URL}/locations`);
-  url.searchParams.set("query", query);
-  url.searchParams.set("type", "station");
+  const locations = await getTransitProvider().searchLocations(query);
+  return locations
+    .filter((s: TransportLocation) => s.name)
+    .slice(0, limit)
+    .map(normalizeStation);
+}
 
-  const response = await fetch(url.toString(), {
-    headers: { "User-Agent": "SwissTransitExplorer/1.0", "Accept": "application/json" },
-  });
+// Street routes are rarely straight: scale the crow-flies distance and walk at ~4.8 km/h
+const WALK_DETOUR_FACTOR = 1.3;
+const WALK_METERS_PER_MINUTE = 80;
+
+export async function findNearbyStations(
+  lat: number,
+  lon: number,
+  radiusMeters = 1000,
+  types?: TransportMode[],
+  limit = 10
+): Promise<NearbyStation[]> {
+  const locations = await getTransitProvider().findNearbyLocations({ lat, lon });
+
+  return locations
+    .filter((l) => l.name)
+    .map((l): NearbyStation => {
+      const station = normalizeStation(l);
+      const distanceMeters = Math.round(
+        l.distance ?? (station.coordinate ? haversineMeters(lat, lon, station.coordinate.lat, station.coordinate.lon) : Infinity)
+      );
+      const walkingDistanceMeters = Math.round(distanceMeters * WALK_DETOUR_FACTOR);
+      return {
+        ...station,
+        distanceMeters,
+        walkingDistanceMeters,
+        walkingMinutes: Math.max(1, Math.round(walkingDistanceMeters / WALK_METERS_PER_MINUTE)),
+      };
+    })
+    .filter((s) => s.distanceMeters <= radiusMeters)
+    .filter((s) => !types?.length || (s.type !== undefined && types.includes(s.type)))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters)
+    .slice(0, limit);
+}
 
-  if (!response.ok) throw new Error(`API error: ${response.status}`);
+function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
 
-  const data = await response.json();
-  return data.stations
-    .filter((s: TransportLocation) => s.name)
-    .slice(0, limit)
-    .map((s: TransportLocation) => ({ id: s.id, name: s.name }));
+const TRANSPORT_MODES: TransportMode[] = ["train", "tram", "bus", "ship", "cableway"];
+
+function normalizeStation(location: TransportLocation): Station {
+  const { x, y } = location.coordinate || {};
+  const type = TRANSPORT_MODES.find((t) => t === location.icon);
+  return {
+    ...(location.id && { id: location.id }),
+    name: location.name,
+    ...(typeof x === "number" && typeof y === "number" && { coordinate: { lat: x, lon: y } }),
+    ...(type && { type }),
+  };
 }
 
 export async function getStationWeather(stationName: string): Promise<{
   station: string;
   temperature: number;
   precipitation: number;
+  precipitationProbability?: number;
   snowfall: number;
   windSpeed: number;
   windGusts: number;
   conditions: string;
   checkedAt: string;
 } | null> {
-  const url = new URL(`${BASE_URL}/locations`);
-  url.searchParams.set("query", stationName);
-  url.searchParams.set("type", "station");
-
-  const response = await fetch(url.toString(), {
-    headers: { "User-Agent": "SwissTransitExplorer/1.0", "Accept": "application/json" },
-  });
-
-  if (!response.ok) return null;
+  let locations: TransportLocation[];
+  try {
+    locations = await getTransitProvider().searchLocations(stationName);
+  } catch {
+    return null;
+  }
 
-  const data = await response.json();
-  const station = data.stations?.find((s: TransportLocation) => s.name && s.coordinate);
+  const station = locations.find((s) => s.name && s.coordinate);
   if (!station?.coordinate) return null;
 
   const weather = await getWeatherInsights([{
@@ -164,6 +271,7 @@ export async function getStationWeather(stationName: string): Promise<{
     station: station.name,
     temperature: Math.round(sample.temperature * 10) / 10,
     precipitation: sample.precipitation,
+    ...(sample.precipitationProbability !== undefined && { precipitationProbability: sample.precipitationProbability }),
     snowfall: sample.snowfall,
     windSpeed: sample.windSpeed,
     windGusts: sample.windGusts,
@@ -178,50 +286,87 @@ export async function findConnections(
   datetime?: string,
   isArrivalTime = false,
   limit = 6,
-  includeWeather = true
-): Promise<{ connections: Connection[]; fromStation?: Station; toStation?: Station }> {
-  const url = new URL(`${BASE_URL}/connections`);
-  url.searchParams.set("from", from);
-  url.searchParams.set("to", to);
-  url.searchParams.set("limit", limit.toString());
-
-  if (datetime) {
-    const date = new Date(datetime);
-    url.searchParams.set("date", date.toISOString().split("T")[0]);
-    url.searchParams.set("time", date.toTimeString().slice(0, 5));
-    url.searchParams.set("isArrivalTime", isArrivalTime ? "1" : "0");
+  includeWeather = true,
+  filters: ConnectionFilters = {},
+  profile = DEFAULT_PROFILE,
+  includeFallbacks = true
+): Promise<{ connections: Connection[]; fromStation?: Station; toStation?: Station; cursors: ConnectionCursors }> {
+  // Resolve before going upstream so an unknown profile fails fast
+  const scoring = reliabilityProfiles.get(profile);
+  const data = await getTransitProvider().getConnections({ from, to, datetime, isArrivalTime, limit, filters });
+  const rawConnections = data.connections;
+
+  if (rawConnections.length === 0) {
+    if (!data.from) throw new StationNotFound(from);
+    if (!data.to) throw new StationNotFound(to);
+    throw new NoConnections(from, to);
   }
 
-  const response = await fetch(url.toString(), {
-    headers: { "User-Agent": "SwissTransitExplorer/1.0", "Accept": "application/json" },
-  });
-
-  if (!response.ok) throw new Error(`API error: ${response.status}`);
-
-  const data = await response.json();
+  await delayHistory.load();
 
+  // Cancelled connections still show up, but never win a tag
   let fastestDuration = Infinity;
   let fewestTransfers = Infinity;
-  const processed = data.connections.map((conn: TransportConnection, index: number) => {
+  let recommendedIndex = -1;
+  const processed = rawConnections.map((conn: TransportConnection, index: number) => {
     const duration = parseDuration(conn.duration);
-    if (duration < fastestDuration) fastestDuration = duration;
-    if (conn.transfers < fewestTransfers) fewestTransfers = conn.transfers;
-    return { conn, duration, index };
+    const legs = normalizeLegs(conn.sections);
+    delayHistory.record(legs);
+    const reliability = calculateReliability(legs, conn.from.departure || new Date().toISOString(), delayHistory, scoring);
+    if (!reliability.unusable) {
+      if (duration < fastestDuration) fastestDuration = duration;
+      if (conn.transfers < fewestTransfers) fewestTransfers = conn.transfers;
+      if (recommendedIndex === -1) recommendedIndex = index;
+    }
+    return { conn, duration, index, legs, reliability };
   });
 
+  // Connections often share a risky change, so look each one up once
+  const fallbacks = new Map<string, Promise<Connection | undefined>>();
+  const fallbackFrom = (station: string, missedDeparture: string) => {
+    const key = `${station}|${missedDeparture}`;
+    let pending = fallbacks.get(key);
+    if (!pending) {
+      pending = findFallback(station, to, missedDeparture, filters, profile);
+      fallbacks.set(key, pending);
+    }
+    return pending;
+  };
+
   const connections: Connection[] = await Promise.all(
-    processed.map(async ({ conn, duration, index }: { conn: TransportConnection; duration: number; index: number }) => {
-      const legs = normalizeLegs(conn.sections);
+    processed.map(async ({ conn, duration, index, legs, reliability }) => {
       const tags: string[] = [];
-      if (duration === fastestDuration) tags.push("fastest");
-      if (conn.transfers === fewestTransfers) tags.push("fewest transfers");
-      if (index === 0) tags.push("recommended");
-
-      const reliability = calculateReliability(legs, conn.from.departure || new Date().toISOString());
+      if (reliability.unusable) tags.push("cancelled");
+      else {
+        if (duration === fastestDuration) tags.push("fastest");
+        if (conn.transfers === fewestTransfers) tags.push("fewest transfers");
+        if (index === recommendedIndex) tags.push("recommended");
+      }
 
+      // Weather is optional enrichment; drop it rather than fail once the request budget runs out
       let weather: WeatherInsight | undefined;
+      let weatherSkipped = false;
       if (includeWeather) {
-        weather = await getWeatherForConnection(conn);
+        try {
+          weather = await getWeatherForConnection(conn);
+        } catch (error) {
+          if (!(error instanceof RequestBudgetExceeded)) throw error;
+          weatherSkipped = true;
+        }
+      }
+
+      // Plan B for high-risk changes, from the station the traveller would be stuck at
+      let transferRisks: TransferRisk[] = reliability.transferRisks;
+      if (includeFallbacks && !reliability.unusable) {
+        const rides = legs.filter((leg) => leg.type === "ride");
+        transferRisks = await Promise.all(
+          reliability.transferRisks.map(async (risk, i) => {
+            const missed = rides[i + 1];
+            if (risk.riskLevel !== "high" || !missed) return risk;
+            const fallback = await fallbackFrom(risk.fromStation, missed.from.timePlanned);
+            return fallback ? { ...risk, fallback: toTransferFallback(fallback, conn.to.arrival || "") } : risk;
+          })
+        );
       }
 
       return {
@@ -232,21 +377,96 @@ export async function findConnections(
         transfersCount: conn.transfers,
         legs,
         reliabilityScore: reliability.score,
-        reliability,
+        reliability: { ...reliability, transferRisks },
         weather,
+        ...(weatherSkipped && { weatherSkipped }),
+        occupancy: normalizeOccupancy(conn) || peakOccupancy(legs),
         tags,
       };
     })
   );
 
-  let fromStation: Station | undefined;
-  let toStation: Station | undefined;
-  if (data.connections.length > 0) {
-    fromStation = { name: data.connections[0].from.station.name };
-    toStation = { name: data.connections[0].to.station.name };
+  const fromStation = normalizeStation({ ...rawConnections[0].from.station, ...data.from });
+  const toStation = normalizeStation({ ...rawConnections[0].to.station, ...data.to });
+
+  return { connections, fromStation, toStation, cursors: getConnectionCursors(connections) };
+}
+
+// Next usable connection from a transfer station once the planned onward train has left.
+// Mode filters still apply; via and direct only made sense for the original trip.
+async function findFallback(
+  station: string,
+  to: string,
+  missedDeparture: string,
+  filters: ConnectionFilters,
+  profile: string
+): Promise<Connection | undefined> {
+  const missedAt = new Date(missedDeparture).getTime();
+  try {
+    const result = await findConnections(
+      station,
+      to,
+      new Date(missedAt + 60000).toISOString(),
+      false,
+      3,
+      false,
+      { transportations: filters.transportations, bike: filters.bike },
+      profile,
+      false
+    );
+    return result.connections.find((c) => !c.reliability?.unusable && new Date(c.departureTime).getTime() > missedAt);
+  } catch (error) {
+    // Like weather, a fallback is enrichment: a failed lookup (timeout, rate limit, an odd
+    // stop name, no budget left) shouldn't fail the main search. Only bugs propagate.
+    if (error instanceof TransitError) return undefined;
+    throw error;
   }
+}
 
-  return { connections, fromStation, toStation };
+function toTransferFallback(fallback: Connection, plannedArrival: string): TransferFallback {
+  return {
+    line: fallback.legs.find((leg) => leg.type === "ride")?.line,
+    departureTime: fallback.departureTime,
+    arrivalTime: fallback.arrivalTime,
+    arrivalDelayMinutes: Math.max(0, Math.round((new Date(fallback.arrivalTime).getTime() - new Date(plannedArrival).getTime()) / 60000)),
+    transfersCount: fallback.transfersCount,
+  };
+}
+
+interface ConnectionCursor {
+  datetime: string;
+  isArrivalTime: boolean;
+}
+
+// Cursors are time-shifted re-queries: "later" departs just after the last result,
+// "earlier" arrives just before the first one.
+export function getConnectionCursors(connections: Connection[]): ConnectionCursors {
+  const times = (key: "departureTime" | "arrivalTime") =>
+    connections.map((c) => new Date(c[key]).getTime()).filter((t) => !isNaN(t));
+  const departures = times("departureTime");
+  const arrivals = times("arrivalTime");
+
+  const encode = (cursor: ConnectionCursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  return {
+    ...(arrivals.length > 0 && {
+      earlier: encode({ datetime: new Date(Math.min(...arrivals) - 60000).toISOString(), isArrivalTime: true }),
+    }),
+    ...(departures.length > 0 && {
+      later: encode({ datetime: new Date(Math.max(...departures) + 60000).toISOString(), isArrivalTime: false }),
+    }),
+  };
+}
+
+export function decodeConnectionCursor(cursor: string): ConnectionCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof decoded.datetime === "string" && !isNaN(new Date(decoded.datetime).getTime())) {
+      return { datetime: decoded.datetime, isArrivalTime: !!decoded.isArrivalTime };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursor(cursor);
 }
 
 async function getWeatherForConnection(conn: TransportConnection): Promise<WeatherInsight | undefined> {
@@ -284,7 +504,8 @@ async function getWeatherForConnection(conn: TransportConnection): Promise<Weath
 
   try {
     return await getWeatherInsights(stations);
-  } catch {
+  } catch (error) {
+    if (error instanceof RequestBudgetExceeded) throw error;
     return undefined;
   }
 }
@@ -309,8 +530,6 @@ function normalizeLegs(sections: TransportSection[]): Leg[] {
       delayMinutes = Math.round((actual - planned) / 60000);
     }
 
-    const fromPlatform = departure.prognosis?.platform || departure.platform;
-    const toPlatform = arrival.prognosis?.platform || arrival.platform;
     const fromActual = departure.prognosis?.departure;
     const toActual = arrival.prognosis?.arrival;
 
@@ -318,29 +537,131 @@ function normalizeLegs(sections: TransportSection[]): Leg[] {
       type: isWalk ? "walk" : "ride",
       from: {
         name: departure.station.name,
+        ...(departure.station.id && { stationId: departure.station.id }),
         timePlanned: departure.departure || "",
         ...(fromActual && fromActual !== departure.departure && { timeActual: fromActual }),
-        ...(fromPlatform && { platform: fromPlatform }),
+        ...normalizePlatform(departure),
+        ...(departure.prognosis?.cancelled && { cancelled: true }),
       },
       to: {
         name: arrival.station.name,
+        ...(arrival.station.id && { stationId: arrival.station.id }),
         timePlanned: arrival.arrival || "",
         ...(toActual && toActual !== arrival.arrival && { timeActual: toActual }),
-        ...(toPlatform && { platform: toPlatform }),
+        ...normalizePlatform(arrival),
+        ...(arrival.prognosis?.cancelled && { cancelled: true }),
       },
     };
 
     if (!isWalk && section.journey) {
-      leg.line = section.journey.name || section.journey.category;
+      const journey = section.journey;
+      leg.line = {
+        name: journey.name || journey.category || "",
+        ...(journey.category && { category: journey.category }),
+        ...(journey.number && { number: journey.number }),
+        ...(journey.operator && { operator: journey.operator }),
+        ...(journey.to && { destination: journey.to }),
+      };
+      // passList includes the boarding and alighting stops
+      const stops = (journey.passList || []).slice(1, -1).map(normalizeStop);
+      if (stops.length > 0) leg.stops = stops;
+
+      const cancellation = legCancellation(leg);
+      if (cancellation) leg.cancellation = cancellation;
     }
     if (delayMinutes && delayMinutes > 0) {
       leg.delayMinutes = delayMinutes;
     }
+    const occupancy = !isWalk ? normalizeOccupancy(section.journey, departure.prognosis) : undefined;
+    if (occupancy) leg.occupancy = occupancy;
 
     return leg;
   });
 }
 
+const OCCUPANCY_LEVELS: OccupancyLevel[] = ["low", "medium", "high"];
+
+// Takes the first source that has a forecast, e.g. journey before checkpoint prognosis
+function normalizeOccupancy(...sources: (TransportCapacity | undefined)[]): Occupancy | undefined {
+  const toLevel = (value?: number | null) => (value ? OCCUPANCY_LEVELS[value - 1] : undefined);
+  for (const source of sources) {
+    const firstClass = toLevel(source?.capacity1st);
+    const secondClass = toLevel(source?.capacity2nd);
+    if (firstClass || secondClass) {
+      return { ...(firstClass && { firstClass }), ...(secondClass && { secondClass }) };
+    }
+  }
+  return undefined;
+}
+
+// A connection is as crowded as its most crowded leg
+function peakOccupancy(legs: Leg[]): Occupancy | undefined {
+  const peak = (key: keyof Occupancy) =>
+    legs.reduce<OccupancyLevel | undefined>((max, leg) => {
+      const level = leg.occupancy?.[key];
+      if (!level) return max;
+      return !max || OCCUPANCY_LEVELS.indexOf(level) > OCCUPANCY_LEVELS.indexOf(max) ? level : max;
+    }, undefined);
+  const firstClass = peak("firstClass");
+  const secondClass = peak("secondClass");
+  return firstClass || secondClass ? { ...(firstClass && { firstClass }), ...(secondClass && { secondClass }) } : undefined;
+}
+
+function normalizeStop(checkpoint: TransportCheckpoint): StopTime {
+  const arrivalActual = checkpoint.prognosis?.arrival;
+  const departureActual = checkpoint.prognosis?.departure;
+  const timePlanned = checkpoint.departure || checkpoint.arrival || "";
+  const timeActual = checkpoint.departure ? departureActual : arrivalActual;
+
+  return {
+    name: checkpoint.station.name,
+    ...(checkpoint.station.id && { stationId: checkpoint.station.id }),
+    timePlanned,
+    ...(timeActual && timeActual !== timePlanned && { timeActual }),
+    ...normalizePlatform(checkpoint),
+    ...(checkpoint.prognosis?.cancelled && { cancelled: true }),
+    ...(checkpoint.arrival && { arrivalPlanned: checkpoint.arrival }),
+    ...(arrivalActual && arrivalActual !== checkpoint.arrival && { arrivalActual }),
+    ...(checkpoint.departure && { departurePlanned: checkpoint.departure }),
+    ...(departureActual && departureActual !== checkpoint.departure && { departureActual }),
+  };
+}
+
+// Can't board at a cancelled departure stop; skipped stops further on make it partial
+function legCancellation(leg: Leg): CancellationStatus | undefined {
+  if (leg.from.cancelled) return "cancelled";
+  if (leg.to.cancelled || leg.stops?.some((stop) => stop.cancelled)) return "partial";
+  return undefined;
+}
+
+// Departures care about the stops after this one, arrivals about the ones before
+function boardCancellation(entry: TransportStationboardEntry, type: BoardType): CancellationStatus | undefined {
+  if (entry.stop?.prognosis?.cancelled) return "cancelled";
+  const passList = entry.passList || [];
+  const relevant = type === "arrival" ? passList.slice(0, -1) : passList.slice(1);
+  return relevant.some((checkpoint) => checkpoint.prognosis?.cancelled) ? "partial" : undefined;
+}
+
+// prognosis.platform is only set when the platform differs from the timetable; some
+// feeds instead flag a change with a trailing "!", which counts as changed on its own
+// and is stripped from the display value
+function normalizePlatform(checkpoint?: TransportCheckpoint): Pick<StopTime, "platform" | "platformPlanned" | "platformActual" | "platformChanged"> {
+  const clean = (value?: string) => value?.replace("!", "").trim() || undefined;
+  const planned = clean(checkpoint?.platform);
+  const actual = clean(checkpoint?.prognosis?.platform);
+  const platform = actual || planned;
+  if (!platform) return {};
+  const flagged = [checkpoint?.platform, checkpoint?.prognosis?.platform].some((value) => value?.includes("!"));
+  const changed = flagged || (!!actual && !!planned && actual !== planned);
+  return {
+    platform,
+    // A "!" on the timetable value marks it as the new platform; the old one is unknown
+    ...(planned && !(changed && planned === platform) && { platformPlanned: planned }),
+    ...(actual && { platformActual: actual }),
+    platformChanged: changed,
+  };
+}
+
 function generateConnectionId(conn: TransportConnection): string {
   const lines = conn.sections.filter((s) => s.journey).map((s) => s.journey?.name).join("-");
   return `${conn.from.departure || ""}-${lines}`.replace(/[^a-zA-Z0-9-]/g, "_");
@@ -348,9 +669,86 @@ function generateConnectionId(conn: TransportConnection): string {
 
 interface DelayedRoute {
   route: string;
+  from: string;
+  to: string;
+  line: string;
+  scheduledDeparture: string;
+  delayMinutes: number;
+}
+
+export interface LineDisruption {
+  line: string;
+  category?: string;
+  direction: string;
+  sampled: number;
+  onTimePercent: number;
+  averageDelayMinutes: number;
+  maxDelayMinutes: number;
+  cancellations: number;
+}
+
+export interface DelayBucket {
+  label: string;
+  count: number;
+}
+
+export type DisruptionStatus = "normal" | "minor_delays" | "major_delays" | "disrupted";
+
+// Probe targets for checkDisruptions, picked by distance from the checked station
+const DISRUPTION_HUBS: { name: string; lat: number; lon: number }[] = [
+  { name: "Zürich HB", lat: 47.3782, lon: 8.5402 },
+  { name: "Bern", lat: 46.949, lon: 7.4391 },
+  { name: "Basel SBB", lat: 47.5474, lon: 7.5896 },
+  { name: "Genève", lat: 46.2102, lon: 6.1424 },
+  { name: "Lausanne", lat: 46.5167, lon: 6.6291 },
+  { name: "Luzern", lat: 47.0502, lon: 8.3102 },
+  { name: "Winterthur", lat: 47.5003, lon: 8.7237 },
+  { name: "St. Gallen", lat: 47.4233, lon: 9.3697 },
+  { name: "Olten", lat: 47.3518, lon: 7.9077 },
+  { name: "Biel/Bienne", lat: 47.1324, lon: 7.2426 },
+  { name: "Chur", lat: 46.8532, lon: 9.5289 },
+  { name: "Lugano", lat: 46.0055, lon: 8.9469 },
+  { name: "Brig", lat: 46.3195, lon: 7.9881 },
+];
+
+// DISRUPTION_HUBS replaces the geographic pick with a fixed, comma-separated list
+const CONFIGURED_HUBS = (process.env.DISRUPTION_HUBS || "").split(",").map((h) => h.trim()).filter(Boolean);
+const HUB_PROBES = Number(process.env.DISRUPTION_HUB_PROBES) || 3;
+const DISRUPTION_BOARD_SIZE = Number(process.env.DISRUPTION_BOARD_SIZE) || 40;
+// Hubs this close count as the same place as the checked station
+const SAME_PLACE_METERS = 5000;
+// SBB counts a train as punctual below 3 minutes
+const ON_TIME_THRESHOLD_MINUTES = 3;
+
+async function selectDisruptionHubs(stationName: string): Promise<string[]> {
+  const isSelf = (hub: string) => hub.toLowerCase() === stationName.toLowerCase();
+  if (CONFIGURED_HUBS.length > 0) return CONFIGURED_HUBS.filter((hub) => !isSelf(hub)).slice(0, HUB_PROBES);
+
+  const [station] = await searchStations(stationName, 1).catch((error) => {
+    if (error instanceof RequestBudgetExceeded) throw error;
+    return [] as Station[];
+  });
+  const origin = station?.coordinate;
+  // Without coordinates keep the list order, which is stable too
+  if (!origin) return DISRUPTION_HUBS.map((h) => h.name).filter((h) => !isSelf(h) && h !== station?.name).slice(0, HUB_PROBES);
+
+  return DISRUPTION_HUBS
+    .map((hub) => ({ name: hub.name, distance: haversineMeters(origin.lat, origin.lon, hub.lat, hub.lon) }))
+    .filter((hub) => hub.distance > SAME_PLACE_METERS)
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, HUB_PROBES)
+    .map((hub) => hub.name);
+}
+
+interface DisruptionSample {
   line: string;
+  category?: string;
+  direction: string;
+  from: string;
+  to: string;
   scheduledDeparture: string;
   delayMinutes: number;
+  cancelled: boolean;
 }
 
 export async function checkDisruptions(stationName: string): Promise<{
@@ -362,72 +760,164 @@ export async function checkDisruptions(stationName: string): Promise<{
   cancelledOrMissing: number;
   averageDelayMinutes: number;
   maxDelayMinutes: number;
+  onTimePercent: number;
+  lines: LineDisruption[];
+  delayHistogram: DelayBucket[];
   delayedRoutes: DelayedRoute[];
-  status: "normal" | "minor_delays" | "major_delays" | "disrupted";
+  status: DisruptionStatus;
   summary: string;
 }> {
-  const majorHubs = ["Zürich HB", "Bern", "Basel SBB", "Genève", "Lausanne", "Luzern", "Winterthur", "St. Gallen"]
-    .filter(hub => !stationName.toLowerCase().includes(hub.toLowerCase().split(" ")[0]));
+  const board = await getStationboard(stationName, DISRUPTION_BOARD_SIZE);
+  const station = board.station;
+
+  // The same train can show up on the board and in a probe; keep the first sighting
+  const samples = new Map<string, DisruptionSample>();
+  const addSample = (sample: DisruptionSample) => {
+    const key = `${sample.line}|${sample.from}|${sample.scheduledDeparture}`;
+    if (!samples.has(key)) samples.set(key, sample);
+  };
 
-  const delays: number[] = [];
-  const delayedRoutes: DelayedRoute[] = [];
-  let cancelledOrMissing = 0;
-  let totalChecked = 0;
+  for (const departure of board.departures) {
+    addSample({
+      line: departure.line,
+      ...(departure.category && { category: departure.category }),
+      direction: departure.destination,
+      from: station,
+      to: departure.destination,
+      scheduledDeparture: departure.departurePlanned,
+      delayMinutes: departure.delayMinutes || 0,
+      cancelled: departure.cancellation === "cancelled",
+    });
+  }
 
-  const hubsToCheck = majorHubs.sort(() => Math.random() - 0.5).slice(0, 4);
+  const hubs = await selectDisruptionHubs(station);
+  const routesChecked = [`${station} departure board`];
+  let missingProbes = 0;
+  let connectionsChecked = 0;
 
-  for (const hub of hubsToCheck) {
+  for (const hub of hubs) {
+    routesChecked.push(`${station} → ${hub}`);
     try {
-      const result = await findConnections(stationName, hub, new Date().toISOString(), false, 2);
-      totalChecked += result.connections.length;
-
+      const result = await findConnections(station, hub, undefined, false, 2, false, {}, DEFAULT_PROFILE, false);
+      connectionsChecked += result.connections.length;
       for (const conn of result.connections) {
         for (const leg of conn.legs) {
-          if (leg.delayMinutes && leg.delayMinutes > 0) {
-            delays.push(leg.delayMinutes);
-            delayedRoutes.push({
-              route: `${leg.from.name} → ${leg.to.name}`,
-              line: leg.line || "walk",
-              scheduledDeparture: leg.from.timePlanned,
-              delayMinutes: leg.delayMinutes,
-            });
-          }
+          if (leg.type !== "ride" || !leg.line) continue;
+          addSample({
+            line: leg.line.name,
+            ...(leg.line.category && { category: leg.line.category }),
+            direction: leg.line.destination || leg.to.name,
+            from: leg.from.name,
+            to: leg.to.name,
+            scheduledDeparture: leg.from.timePlanned,
+            delayMinutes: leg.delayMinutes || 0,
+            cancelled: leg.cancellation === "cancelled",
+          });
         }
       }
-      if (result.connections.length === 0) cancelledOrMissing++;
-    } catch {
-      cancelledOrMissing++;
+    } catch (error) {
+      if (error instanceof RequestBudgetExceeded) break;
+      missingProbes++;
     }
   }
 
-  const delayedConnectionsCount = delayedRoutes.length;
+  const all = [...samples.values()];
+  const running = all.filter((s) => !s.cancelled);
+  const delays = running.map((s) => s.delayMinutes);
+  const delayed = running.filter((s) => s.delayMinutes >= ON_TIME_THRESHOLD_MINUTES);
+  const cancellations = all.length - running.length;
+
   const averageDelay = delays.length > 0 ? Math.round(delays.reduce((a, b) => a + b, 0) / delays.length) : 0;
   const maxDelay = delays.length > 0 ? Math.max(...delays) : 0;
-
-  let status: "normal" | "minor_delays" | "major_delays" | "disrupted";
-  if (cancelledOrMissing >= 2 || maxDelay > 30) status = "disrupted";
-  else if (maxDelay > 15 || delayedConnectionsCount > totalChecked * 0.5) status = "major_delays";
-  else if (maxDelay > 5 || delayedConnectionsCount > 0) status = "minor_delays";
+  const onTimePercent = all.length > 0 ? Math.round(((running.length - delayed.length) / all.length) * 100) : 100;
+  const cancelledOrMissing = cancellations + missingProbes;
+
+  const delayedRoutes: DelayedRoute[] = delayed
+    .sort((a, b) => b.delayMinutes - a.delayMinutes || a.scheduledDeparture.localeCompare(b.scheduledDeparture))
+    .map((s) => ({
+      route: `${s.from} → ${s.to}`,
+      from: s.from,
+      to: s.to,
+      line: s.line,
+      scheduledDeparture: s.scheduledDeparture,
+      delayMinutes: s.delayMinutes,
+    }));
+
+  let status: DisruptionStatus;
+  if (cancelledOrMissing >= 2 || maxDelay > 30 || onTimePercent < 50) status = "disrupted";
+  else if (maxDelay > 15 || onTimePercent < 75) status = "major_delays";
+  else if (maxDelay > 5 || delayed.length > 0 || cancelledOrMissing > 0) status = "minor_delays";
   else status = "normal";
 
   const summaries = {
-    disrupted: `⚠️ Significant disruptions around ${stationName}. ${delayedConnectionsCount} delayed, max ${maxDelay}min.`,
-    major_delays: `🟠 Major delays around ${stationName}. Average ${averageDelay}min.`,
-    minor_delays: `🟡 Minor delays around ${stationName}. ${delayedConnectionsCount} delayed, avg ${averageDelay}min.`,
-    normal: `✅ Service normal around ${stationName}.`,
+    disrupted: `⚠️ Significant disruptions around ${station}. ${delayed.length} delayed, ${cancellations} cancelled, max ${maxDelay}min.`,
+    major_delays: `🟠 Major delays around ${station}. ${onTimePercent}% on time, average ${averageDelay}min.`,
+    minor_delays: `🟡 Minor delays around ${station}. ${delayed.length} delayed, avg ${averageDelay}min.`,
+    normal: `✅ Service normal around ${station}.`,
   };
 
   return {
-    station: stationName,
+    station,
     checkedAt: new Date().toISOString(),
-    routesChecked: hubsToCheck.map(h => `${stationName} → ${h}`),
-    totalConnectionsChecked: totalChecked,
-    delayedConnectionsCount,
+    routesChecked,
+    totalConnectionsChecked: board.departures.length + connectionsChecked,
+    delayedConnectionsCount: delayed.length,
     cancelledOrMissing,
     averageDelayMinutes: averageDelay,
     maxDelayMinutes: maxDelay,
+    onTimePercent,
+    lines: summarizeLines(all),
+    delayHistogram: [
+      ...DELAY_BUCKETS.map(({ label, minMinutes }, i) => ({
+        label,
+        count: delays.filter((d) => d >= minMinutes && d < (DELAY_BUCKETS[i + 1]?.minMinutes ?? Infinity)).length,
+      })),
+      { label: "Cancelled", count: cancellations },
+    ],
     delayedRoutes,
     status,
     summary: summaries[status],
   };
 }
+
+const DELAY_BUCKETS = [
+  { label: "On time", minMinutes: 0 },
+  { label: "3–5 min", minMinutes: ON_TIME_THRESHOLD_MINUTES },
+  { label: "6–10 min", minMinutes: 6 },
+  { label: "11–15 min", minMinutes: 11 },
+  { label: "16–30 min", minMinutes: 16 },
+  { label: "30+ min", minMinutes: 31 },
+];
+
+// Worst lines first; ties fall back to the line name so repeated checks list them identically
+function summarizeLines(samples: DisruptionSample[]): LineDisruption[] {
+  const groups = new Map<string, DisruptionSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.line}|${sample.direction}`;
+    groups.set(key, [...(groups.get(key) || []), sample]);
+  }
+
+  return [...groups.values()]
+    .map((group): LineDisruption => {
+      const running = group.filter((s) => !s.cancelled);
+      const onTime = running.filter((s) => s.delayMinutes < ON_TIME_THRESHOLD_MINUTES).length;
+      const delays = running.map((s) => s.delayMinutes);
+      return {
+        line: group[0].line,
+        ...(group[0].category && { category: group[0].category }),
+        direction: group[0].direction,
+        sampled: group.length,
+        onTimePercent: Math.round((onTime / group.length) * 100),
+        averageDelayMinutes: delays.length > 0 ? Math.round((delays.reduce((a, b) => a + b, 0) / delays.length) * 10) / 10 : 0,
+        maxDelayMinutes: delays.length > 0 ? Math.max(...delays) : 0,
+        cancellations: group.length - running.length,
+      };
+    })
+    .sort((a, b) =>
+      b.cancellations - a.cancellations ||
+      a.onTimePercent - b.onTimePercent ||
+      b.averageDelayMinutes - a.averageDelayMinutes ||
+      a.line.localeCompare(b.line, "de-CH", { numeric: true }) ||
+      a.direction.localeCompare(b.direction)
+    );
+}
@@ -0,0 +1,31 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { DataFileUnreadable } from "../api/errors";
+
+// Bundled datasets live in data/ at the package root. It is found from this module rather
+// than the working directory, so the server starts the same from anywhere.
+
+function packageRoot(): string {
+  let dir = path.dirname(fileURLToPath(import.meta.url));
+  while (!existsSync(path.join(dir, "package.json"))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) return process.cwd();
+    dir = parent;
+  }
+  return dir;
+}
+
+// An override from the environment is taken relative to the working directory, like other paths
+export function dataFilePath(override: string | undefined, fileName: string): string {
+  return override ? path.resolve(override) : path.join(packageRoot(), "data", fileName);
+}
+
+// Throws DataFileUnreadable: scoring silently without its dataset would look plausible but be wrong
+export function readDataFile<T>(filePath: string): T {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new DataFileUnreadable(filePath, error instanceof Error ? error.message : "unknown error");
+  }
+}
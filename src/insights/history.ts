@@ -0,0 +1,259 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Leg, StopTime } from "../types";
+
+// Observed delays of every leg we fetch, aggregated by line, station, weekday and hour
+// (Swiss local time). Trips are kept as pending until their planned time has passed so
+// that repeated fetches of the same train count once, with the last prognosis we saw.
+// Stops far from now carry only the timetable, so they are not recorded at all.
+
+export interface DelayBucket {
+  // delays[m] counts observations of m minutes late; the last slot is MAX_TRACKED_DELAY+
+  delays: number[];
+  cancelled: number;
+  updatedAt?: number; // epoch ms of the last settled observation, for pruning
+}
+
+export interface TransferBucket {
+  samples: number;
+  missed: number;
+  updatedAt?: number;
+}
+
+interface PendingStop {
+  key: string;
+  time: string;
+  delayMinutes: number;
+  cancelled: boolean;
+}
+
+interface PendingTransfer {
+  key: string;
+  time: string;
+  missed: boolean;
+}
+
+export interface HistorySnapshot {
+  lines: Record<string, DelayBucket>;
+  transfers: Record<string, TransferBucket>;
+  pendingStops: Record<string, PendingStop>;
+  pendingTransfers: Record<string, PendingTransfer>;
+}
+
+export interface HistoryBackend {
+  load(): Promise<HistorySnapshot | null>;
+  save(snapshot: HistorySnapshot): Promise<void>;
+}
+
+export interface LineHistory {
+  samples: number;
+  onTimeRate: number;
+  averageDelayMinutes: number;
+  // Probability of arriving at least this many minutes late
+  lateBy(minutes: number): number;
+}
+
+export interface TransferHistory {
+  samples: number;
+  missedRate: number;
+}
+
+export interface DelayHistoryOptions {
+  backend?: HistoryBackend;
+  minSamples?: number;
+  retentionDays?: number; // drop slots without a new observation for this long
+  maxEntries?: number; // per map, so the persisted snapshot stays bounded
+}
+
+const MAX_TRACKED_DELAY = 30;
+const ON_TIME_THRESHOLD_MINUTES = 3;
+const DEFAULT_MIN_SAMPLES = 8;
+const DEFAULT_RETENTION_DAYS = 90;
+const DEFAULT_MAX_ENTRIES = 20000;
+const PERSIST_DELAY_MS = 2000;
+// Without a prognosis, "on time" only means something this close to the planned time
+const REALTIME_WINDOW_MS = 60 * 60000;
+const DAY_MS = 24 * 60 * 60000;
+
+const SLOT_FORMAT = new Intl.DateTimeFormat("en-US", {
+  timeZone: "Europe/Zurich",
+  weekday: "short",
+  hour: "2-digit",
+  hourCycle: "h23",
+});
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function timeSlot(iso: string): string {
+  const parts = SLOT_FORMAT.formatToParts(new Date(iso));
+  const weekday = WEEKDAYS.indexOf(parts.find((p) => p.type === "weekday")?.value || "");
+  const hour = parseInt(parts.find((p) => p.type === "hour")?.value || "0");
+  return `${weekday}|${hour}`;
+}
+
+const minutesBetween = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+// A stop tells us something real if it carries prognosis data or is close to its planned time
+const isObservable = (stop: StopTime, now: number) =>
+  !!stop.timeActual || !!stop.cancelled || Math.abs(new Date(stop.timePlanned).getTime() - now) <= REALTIME_WINDOW_MS;
+
+// Keep the highest-ranked entries of a map
+function trim<T>(map: Record<string, T>, max: number, rank: (value: T) => number) {
+  const keys = Object.keys(map);
+  if (keys.length <= max) return;
+  keys.sort((a, b) => rank(map[a]) - rank(map[b]));
+  for (const key of keys.slice(0, keys.length - max)) delete map[key];
+}
+
+export function createFileHistoryBackend(filePath: string): HistoryBackend {
+  return {
+    async load() {
+      try {
+        return JSON.parse(await readFile(filePath, "utf8"));
+      } catch {
+        return null;
+      }
+    },
+    async save(snapshot) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, JSON.stringify(snapshot));
+    },
+  };
+}
+
+export function createDelayHistory(options: DelayHistoryOptions = {}) {
+  const backend = options.backend;
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const retentionMs = (options.retentionDays ?? DEFAULT_RETENTION_DAYS) * DAY_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  let data: HistorySnapshot = { lines: {}, transfers: {}, pendingStops: {}, pendingTransfers: {} };
+  let hydrated: Promise<void> | undefined;
+  let persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const hydrate = () => {
+    hydrated ??= (async () => {
+      const loaded = await backend?.load();
+      if (loaded) data = { ...data, ...loaded };
+    })();
+    return hydrated;
+  };
+
+  const schedulePersist = () => {
+    if (!backend || persistTimer) return;
+    persistTimer = setTimeout(() => {
+      persistTimer = undefined;
+      prune();
+      backend.save(data).catch(() => {});
+    }, PERSIST_DELAY_MS);
+    persistTimer.unref?.();
+  };
+
+  // Move trips whose planned time has passed from pending into the aggregates
+  const settle = (now = Date.now()) => {
+    for (const [id, stop] of Object.entries(data.pendingStops)) {
+      if (new Date(stop.time).getTime() > now) continue;
+      const bucket = (data.lines[stop.key] ??= { delays: new Array(MAX_TRACKED_DELAY + 1).fill(0), cancelled: 0 });
+      bucket.updatedAt = now;
+      if (stop.cancelled) bucket.cancelled++;
+      else bucket.delays[Math.min(Math.max(stop.delayMinutes, 0), MAX_TRACKED_DELAY)]++;
+      delete data.pendingStops[id];
+    }
+    for (const [id, transfer] of Object.entries(data.pendingTransfers)) {
+      if (new Date(transfer.time).getTime() > now) continue;
+      const bucket = (data.transfers[transfer.key] ??= { samples: 0, missed: 0 });
+      bucket.samples++;
+      bucket.updatedAt = now;
+      if (transfer.missed) bucket.missed++;
+      delete data.pendingTransfers[id];
+    }
+  };
+
+  // Slots nobody travelled for a while go first; pending trips furthest ahead are dropped first
+  const prune = (now = Date.now()) => {
+    for (const buckets of [data.lines, data.transfers]) {
+      for (const [key, bucket] of Object.entries(buckets)) {
+        bucket.updatedAt ??= now; // snapshots from before pruning existed
+        if (now - bucket.updatedAt > retentionMs) delete buckets[key];
+      }
+    }
+    trim(data.lines, maxEntries, (bucket) => bucket.updatedAt || 0);
+    trim(data.transfers, maxEntries, (bucket) => bucket.updatedAt || 0);
+    trim(data.pendingStops, maxEntries, (stop) => -new Date(stop.time).getTime());
+    trim(data.pendingTransfers, maxEntries, (transfer) => -new Date(transfer.time).getTime());
+  };
+
+  const observeStop = (line: string, station: string, planned: string, actual: string | undefined, cancelled: boolean) => {
+    if (!planned) return;
+    data.pendingStops[`${line}|${station}|${planned}`] = {
+      key: `${line}|${station}|${timeSlot(planned)}`,
+      time: planned,
+      delayMinutes: actual ? minutesBetween(planned, actual) : 0,
+      cancelled,
+    };
+  };
+
+  return {
+    load: hydrate,
+
+    record(legs: Leg[]) {
+      const now = Date.now();
+      const rides = legs.filter((leg) => leg.type === "ride" && leg.line);
+      for (const leg of rides) {
+        const line = leg.line?.name || "";
+        const cancelled = leg.cancellation === "cancelled";
+        for (const stop of [leg.from, leg.to]) {
+          if (!cancelled && !isObservable(stop, now)) continue;
+          observeStop(line, stop.name, stop.timePlanned, stop.timeActual, !!stop.cancelled || cancelled);
+        }
+      }
+      for (let i = 0; i < rides.length - 1; i++) {
+        const arrival = rides[i].to;
+        const departure = rides[i + 1].from;
+        if (!arrival.timePlanned || !departure.timePlanned) continue;
+        if (!isObservable(arrival, now) || !isObservable(departure, now)) continue;
+        const arrives = new Date(arrival.timeActual || arrival.timePlanned).getTime();
+        const leaves = new Date(departure.timeActual || departure.timePlanned).getTime();
+        data.pendingTransfers[`${arrival.name}|${arrival.timePlanned}|${departure.timePlanned}`] = {
+          key: `${arrival.name}|${timeSlot(departure.timePlanned)}`,
+          time: departure.timePlanned,
+          missed: leaves < arrives || !!departure.cancelled || !!arrival.cancelled,
+        };
+      }
+      settle();
+      schedulePersist();
+    },
+
+    // undefined when there are fewer than minSamples observations for this slot
+    line(line: string, station: string, at: string): LineHistory | undefined {
+      const bucket = data.lines[`${line}|${station}|${timeSlot(at)}`];
+      if (!bucket) return undefined;
+      const running = bucket.delays.reduce((a, b) => a + b, 0);
+      const samples = running + bucket.cancelled;
+      if (samples < minSamples) return undefined;
+      const onTime = bucket.delays.slice(0, ON_TIME_THRESHOLD_MINUTES).reduce((a, b) => a + b, 0);
+      const delaySum = bucket.delays.reduce((sum, count, minutes) => sum + count * minutes, 0);
+      return {
+        samples,
+        onTimeRate: onTime / samples,
+        averageDelayMinutes: running > 0 ? delaySum / running : 0,
+        lateBy: (minutes: number) => {
+          const from = Math.min(Math.max(Math.ceil(minutes), 0), MAX_TRACKED_DELAY);
+          const late = bucket.delays.slice(from).reduce((a, b) => a + b, 0);
+          return (late + bucket.cancelled) / samples;
+        },
+      };
+    },
+
+    transfer(station: string, at: string): TransferHistory | undefined {
+      const bucket = data.transfers[`${station}|${timeSlot(at)}`];
+      if (!bucket || bucket.samples < minSamples) return undefined;
+      return { samples: bucket.samples, missedRate: bucket.missed / bucket.samples };
+    },
+  };
+}
+
+export type DelayHistory = ReturnType<typeof createDelayHistory>;
+
+export const delayHistory = createDelayHistory({
+  backend: createFileHistoryBackend(path.resolve(process.env.HISTORY_FILE || ".data/delay-history.json")),
+  minSamples: Number(process.env.HISTORY_MIN_SAMPLES) || DEFAULT_MIN_SAMPLES,
+});
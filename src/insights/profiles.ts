@@ -0,0 +1,105 @@
+import { UnknownReliabilityProfile } from "../api/errors";
+import { dataFilePath, readDataFile } from "./datafiles";
+
+// Named trade-offs for calculateReliability. Profiles live in data so weights can be tuned
+// without a deploy; fields a profile leaves out fall back to the built-in default.
+
+export interface ReliabilityProfile {
+  name: string;
+  description?: string;
+  // Added to every station's minimum transfer time (lifts, luggage, finding the ramp)
+  extraTransferMinutes: number;
+  // Spare minutes beyond the required transfer time below which a change is tight / short / comfortable
+  slackMinutes: { tight: number; short: number; comfortable: number };
+  penalties: {
+    transfer: number;
+    tightTransfer: number;
+    shortTransfer: number;
+    comfortableTransfer: number;
+    bigStation: number;
+    peakTime: number;
+    currentDelay: number;
+    partialCancellation: number;
+    historicalMissWeight: number;
+    historicalMissMax: number;
+    historicalDelayWeight: number;
+    historicalDelayMax: number;
+  };
+  // Minimum score for the "low" and "medium" risk levels
+  levels: { low: number; medium: number };
+  // Observed miss rate from which a change is high / medium risk, and the on-time share
+  // below which a line's punctuality is penalised
+  history: { highMissRate: number; mediumMissRate: number; onTimeTarget: number };
+}
+
+type ProfileData = Partial<Omit<ReliabilityProfile, "name" | "slackMinutes" | "penalties" | "levels" | "history">> & {
+  slackMinutes?: Partial<ReliabilityProfile["slackMinutes"]>;
+  penalties?: Partial<ReliabilityProfile["penalties"]>;
+  levels?: Partial<ReliabilityProfile["levels"]>;
+  history?: Partial<ReliabilityProfile["history"]>;
+};
+
+export const DEFAULT_PROFILE = "default";
+
+const BUILTIN_DEFAULT: ReliabilityProfile = {
+  name: DEFAULT_PROFILE,
+  extraTransferMinutes: 0,
+  slackMinutes: { tight: 1, short: 3, comfortable: 5 },
+  penalties: {
+    transfer: 0.12,
+    tightTransfer: 0.35,
+    shortTransfer: 0.2,
+    comfortableTransfer: 0.1,
+    bigStation: 0.08,
+    peakTime: 0.08,
+    currentDelay: 0.05,
+    partialCancellation: 0.3,
+    historicalMissWeight: 1.5,
+    historicalMissMax: 0.4,
+    historicalDelayWeight: 0.6,
+    historicalDelayMax: 0.2,
+  },
+  levels: { low: 0.75, medium: 0.55 },
+  history: { highMissRate: 0.2, mediumMissRate: 0.08, onTimeTarget: 0.85 },
+};
+
+export function loadReliabilityProfiles(filePath: string): Record<string, ProfileData> {
+  return readDataFile(filePath);
+}
+
+// Names are matched case-insensitively, in the file as in requests
+export function createReliabilityProfiles(profileData: Record<string, ProfileData>) {
+  const data = Object.fromEntries(Object.entries(profileData).map(([name, profile]) => [name.toLowerCase(), profile]));
+  const merge = (name: string, base: ReliabilityProfile, profile: ProfileData = {}): ReliabilityProfile => ({
+    ...base,
+    ...profile,
+    name,
+    slackMinutes: { ...base.slackMinutes, ...profile.slackMinutes },
+    penalties: { ...base.penalties, ...profile.penalties },
+    levels: { ...base.levels, ...profile.levels },
+    history: { ...base.history, ...profile.history },
+  });
+
+  const fallback = merge(DEFAULT_PROFILE, BUILTIN_DEFAULT, data[DEFAULT_PROFILE]);
+  const profiles = new Map<string, ReliabilityProfile>([[DEFAULT_PROFILE, fallback]]);
+  for (const [name, profile] of Object.entries(data)) {
+    if (name !== DEFAULT_PROFILE) profiles.set(name, merge(name, fallback, profile));
+  }
+
+  return {
+    names: () => [...profiles.keys()],
+
+    // Throws UnknownReliabilityProfile so a typo doesn't silently score with the default
+    get(name: string = DEFAULT_PROFILE): ReliabilityProfile {
+      const profile = profiles.get(name.toLowerCase());
+      if (!profile) throw new UnknownReliabilityProfile(name, [...profiles.keys()]);
+      return profile;
+    },
+  };
+}
+
+export type ReliabilityProfiles = ReturnType<typeof createReliabilityProfiles>;
+
+export const reliabilityProfiles = createReliabilityProfiles(
+  loadReliabilityProfiles(dataFilePath(process.env.RELIABILITY_PROFILES_FILE, "reliability-profiles.json"))
+);
@@ -0,0 +1,108 @@
+import type { Leg } from "../types";
+import type { ReliabilityHistory } from "./reliability";
+
+// Monte Carlo delay propagation: sample an arrival delay for every ride, check each change
+// against its required transfer time, and charge the headway of the missed line when one
+// fails. Seeded from the connection itself so refreshes don't make the numbers jitter.
+
+export interface DelayPropagation {
+  transferProbabilities: number[]; // chance each change between consecutive rides holds
+  allTransfersProbability: number;
+  expectedArrivalDelayMinutes: number;
+}
+
+interface DelayPrior {
+  onTimeRate: number; // share of trips that add no delay beyond what is already known
+  meanLateMinutes: number; // mean extra delay of the rest, exponentially distributed
+  headwayMinutes: number; // wait for the next service on this line
+}
+
+// Rough Swiss averages per line category, used while observed history is thin
+const DELAY_PRIORS: Record<string, DelayPrior> = {
+  IC: { onTimeRate: 0.88, meanLateMinutes: 4, headwayMinutes: 30 },
+  ICN: { onTimeRate: 0.88, meanLateMinutes: 4, headwayMinutes: 30 },
+  IR: { onTimeRate: 0.88, meanLateMinutes: 4, headwayMinutes: 30 },
+  EC: { onTimeRate: 0.7, meanLateMinutes: 8, headwayMinutes: 60 },
+  ICE: { onTimeRate: 0.7, meanLateMinutes: 8, headwayMinutes: 60 },
+  TGV: { onTimeRate: 0.75, meanLateMinutes: 7, headwayMinutes: 120 },
+  RJX: { onTimeRate: 0.7, meanLateMinutes: 8, headwayMinutes: 120 },
+  EN: { onTimeRate: 0.65, meanLateMinutes: 10, headwayMinutes: 120 },
+  NJ: { onTimeRate: 0.65, meanLateMinutes: 10, headwayMinutes: 120 },
+  RE: { onTimeRate: 0.9, meanLateMinutes: 3, headwayMinutes: 30 },
+  R: { onTimeRate: 0.92, meanLateMinutes: 3, headwayMinutes: 30 },
+  S: { onTimeRate: 0.92, meanLateMinutes: 2.5, headwayMinutes: 30 },
+  SN: { onTimeRate: 0.9, meanLateMinutes: 3, headwayMinutes: 60 },
+  B: { onTimeRate: 0.8, meanLateMinutes: 3, headwayMinutes: 15 },
+  T: { onTimeRate: 0.85, meanLateMinutes: 2, headwayMinutes: 10 },
+};
+const DEFAULT_PRIOR: DelayPrior = { onTimeRate: 0.88, meanLateMinutes: 4, headwayMinutes: 30 };
+
+const RUNS = 2000;
+const MAX_SAMPLED_DELAY = 30;
+
+const minutesLate = (planned: string, actual?: string) =>
+  actual ? Math.max(0, Math.round((new Date(actual).getTime() - new Date(planned).getTime()) / 60000)) : 0;
+
+const priorFor = (leg: Leg) => DELAY_PRIORS[(leg.line?.category || "").toUpperCase()] || DEFAULT_PRIOR;
+
+// mulberry32, seeded with an FNV-1a hash of the trip
+function seededRandom(seed: string) {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function propagateDelays(legs: Leg[], requiredMinutes: number[], history?: ReliabilityHistory): DelayPropagation {
+  const rides = legs.filter((leg) => leg.type === "ride");
+  const random = seededRandom(rides.map((leg) => `${leg.line?.name}|${leg.from.timePlanned}`).join("/"));
+
+  // Observed history beats the category prior; it already includes typical delays, so the
+  // live delay only acts as a floor there instead of being added on top
+  const samplers = rides.map((leg) => {
+    const known = leg.to.timeActual ? minutesLate(leg.to.timePlanned, leg.to.timeActual) : leg.delayMinutes || 0;
+    const observed = history?.line(leg.line?.name || "", leg.to.name, leg.to.timePlanned);
+    if (observed) {
+      return () => {
+        const u = random();
+        let minutes = 0;
+        while (minutes < MAX_SAMPLED_DELAY && observed.lateBy(minutes + 1) > u) minutes++;
+        return Math.max(known, minutes);
+      };
+    }
+    const prior = priorFor(leg);
+    return () => (random() < prior.onTimeRate ? known : known + Math.round(-Math.log(1 - random()) * prior.meanLateMinutes));
+  });
+
+  const changes = rides.slice(1).map((next, i) => ({
+    plannedMargin: Math.round((new Date(next.from.timePlanned).getTime() - new Date(rides[i].to.timePlanned).getTime()) / 60000),
+    // Trains rarely leave early, so a known late departure of the next ride is extra slack
+    departureDelay: minutesLate(next.from.timePlanned, next.from.timeActual),
+    required: requiredMinutes[i] ?? 0,
+    headway: priorFor(next).headwayMinutes,
+  }));
+
+  const held = changes.map(() => 0);
+  let allHeld = 0;
+  let totalDelay = 0;
+  for (let run = 0; run < RUNS; run++) {
+    const arrivals = samplers.map((sample) => sample());
+    let missedWait = 0;
+    changes.forEach((change, i) => {
+      if (arrivals[i] + change.required <= change.plannedMargin + change.departureDelay) held[i]++;
+      else missedWait += change.headway;
+    });
+    if (missedWait === 0) allHeld++;
+    totalDelay += (arrivals[arrivals.length - 1] ?? 0) + missedWait;
+  }
+
+  return {
+    transferProbabilities: held.map((count) => count / RUNS),
+    allTransfersProbability: allHeld / RUNS,
+    expectedArrivalDelayMinutes: Math.round(totalDelay / RUNS),
+  };
+}
@@ -1,33 +1,13 @@
-import type { Leg } from "../types";
-
-export interface TransferRisk {
-  fromStation: string;
-  toStation: string;
-  marginMinutes: number;
-  riskLevel: "low" | "medium" | "high";
-  isBigStation: boolean;
-}
-
-export interface ReliabilityReason {
-  code: string;
-  label: string;
-  penalty: number;
-}
-
-export interface ReliabilityInsight {
-  score: number;
-  level: "low" | "medium" | "high";
-  reasons: ReliabilityReason[];
-  transferRisks: TransferRisk[];
-}
-
-const BIG_STATIONS = [
-  "Zürich HB", "Bern", "Basel SBB", "Lausanne", "Genève", 
-  "Luzern", "Winterthur", "Olten", "Zürich Flughafen"
-];
-
-function isBigStation(name: string): boolean {
-  return BIG_STATIONS.some(s => name.toLowerCase().includes(s.toLowerCase()));
+import type { Leg, ReliabilityInsight, ReliabilityReason, TransferRisk } from "../types";
+import type { LineHistory, TransferHistory } from "./history";
+import { reliabilityProfiles, type ReliabilityProfile } from "./profiles";
+import { propagateDelays } from "./propagation";
+import { transferTimes as defaultTransferTimes, type TransferTimes } from "./transfers";
+
+// Observed delays, see createDelayHistory; lookups return undefined while data is thin
+export interface ReliabilityHistory {
+  line(line: string, station: string, at: string): LineHistory | undefined;
+  transfer(station: string, at: string): TransferHistory | undefined;
 }
 
 function isPeakTime(dateStr: string): boolean {
@@ -40,17 +20,48 @@ function isPeakTime(dateStr: string): boolean {
   return (time >= 7 && time <= 9) || (time >= 16.5 && time <= 18.5);
 }
 
-export function calculateReliability(legs: Leg[], departureTime: string): ReliabilityInsight {
+export function calculateReliability(
+  legs: Leg[],
+  departureTime: string,
+  history?: ReliabilityHistory,
+  profile: ReliabilityProfile = reliabilityProfiles.get(),
+  transferTimes: TransferTimes = defaultTransferTimes
+): ReliabilityInsight {
   const reasons: ReliabilityReason[] = [];
   const transferRisks: TransferRisk[] = [];
+  const { penalties, slackMinutes, history: thresholds } = profile;
   let totalPenalty = 0;
 
+  // A cancelled leg, or one that no longer reaches where we change or get off, breaks the trip
+  let unusable = false;
+  for (const leg of legs) {
+    if (!leg.cancellation) continue;
+    const line = leg.line?.name || "Train";
+    if (leg.cancellation === "cancelled" || leg.to.cancelled) {
+      unusable = true;
+      totalPenalty += 1;
+      reasons.push({
+        code: "cancelled",
+        label: leg.cancellation === "cancelled" ? `${line} is cancelled` : `${line} no longer stops at ${leg.to.name}`,
+        penalty: 1,
+      });
+    } else {
+      const penalty = penalties.partialCancellation;
+      totalPenalty += penalty;
+      reasons.push({
+        code: "partial_cancellation",
+        label: `${line} skips some stops`,
+        penalty,
+      });
+    }
+  }
+
   // Get only ride legs
   const rideLegs = legs.filter(l => l.type === "ride");
   const realTransfers = rideLegs.length - 1;
 
   if (realTransfers > 0) {
-    const penalty = 0.12 * realTransfers;
+    const penalty = penalties.transfer * realTransfers;
     totalPenalty += penalty;
     reasons.push({
       code: "transfers",
@@ -70,34 +81,58 @@ export function calculateReliability(legs: Leg[], departureTime: string): Reliab
     const marginMin = Math.round((departureTimeNext - arrivalTime) / 60000);
     
     const transferStation = currentRide.to.name;
-    const bigStation = isBigStation(transferStation);
+    // Changing between differently named stops means walking there first
+    const walk = legs.slice(legs.indexOf(currentRide) + 1, legs.indexOf(nextRide)).find((l) => l.type === "walk");
+    const walkMinutes = walk ? Math.round((new Date(walk.to.timePlanned).getTime() - new Date(walk.from.timePlanned).getTime()) / 60000) : 0;
+    const required = transferTimes.required(currentRide.to, currentRide.to.platform, nextRide.from.platform);
+    const requiredMinutes = Math.max(required.minutes, walkMinutes) + profile.extraTransferMinutes;
+    const slack = marginMin - requiredMinutes;
+    const bigStation = required.isBigStation;
     
     let transferPenalty = 0;
     let riskLevel: "low" | "medium" | "high" = "low";
 
-    if (marginMin < 4) {
-      transferPenalty = 0.35;
+    // Prefer what happened on past trips: missed transfers here at this hour, or else how
+    // often the incoming line ran later than the planned margin
+    const plannedMargin = Math.round((departureTimeNext - new Date(currentRide.to.timePlanned).getTime()) / 60000);
+    const missRate =
+      history?.transfer(transferStation, nextRide.from.timePlanned)?.missedRate ??
+      history?.line(currentRide.line?.name || "", transferStation, currentRide.to.timePlanned)?.lateBy(plannedMargin);
+
+    if (missRate !== undefined) {
+      transferPenalty = Math.min(penalties.historicalMissMax, missRate * penalties.historicalMissWeight);
+      riskLevel = missRate >= thresholds.highMissRate ? "high" : missRate >= thresholds.mediumMissRate ? "medium" : "low";
+      if (riskLevel !== "low") {
+        reasons.push({
+          code: "historical_missed_connection",
+          label: `${Math.round(missRate * 100)}% missed at ${transferStation}`,
+          penalty: transferPenalty,
+        });
+      }
+    } else if (slack < slackMinutes.tight) {
+      transferPenalty = penalties.tightTransfer;
       riskLevel = "high";
       reasons.push({
         code: "tight_transfer",
-        label: `${marginMin}min transfer at ${transferStation}`,
+        label: `${marginMin}min transfer at ${transferStation} (${requiredMinutes}min needed)`,
         penalty: transferPenalty,
       });
-    } else if (marginMin < 6) {
-      transferPenalty = 0.20;
+    } else if (slack < slackMinutes.short) {
+      transferPenalty = penalties.shortTransfer;
       riskLevel = "medium";
       reasons.push({
         code: "short_transfer",
-        label: `${marginMin}min transfer`,
+        label: `${marginMin}min transfer (${requiredMinutes}min needed)`,
         penalty: transferPenalty,
       });
-    } else if (marginMin < 8) {
-      transferPenalty = 0.10;
+    } else if (slack < slackMinutes.comfortable) {
+      transferPenalty = penalties.comfortableTransfer;
       riskLevel = "low";
     }
 
-    if (bigStation && realTransfers > 0) {
-      const stationPenalty = 0.08;
+    // Known platforms already account for the walk; otherwise a large station adds wayfinding risk
+    if (bigStation && required.source !== "platforms" && realTransfers > 0) {
+      const stationPenalty = penalties.bigStation;
       totalPenalty += stationPenalty;
       if (!reasons.find(r => r.code === "big_station")) {
         reasons.push({
@@ -116,11 +151,14 @@ export function calculateReliability(legs: Leg[], departureTime: string): Reliab
       marginMinutes: marginMin,
       riskLevel,
       isBigStation: bigStation,
+      requiredMinutes,
+      slackMinutes: slack,
+      ...(missRate !== undefined && { historicalMissRate: missRate }),
     });
   }
 
   if (isPeakTime(departureTime)) {
-    const penalty = 0.08;
+    const penalty = penalties.peakTime;
     totalPenalty += penalty;
     reasons.push({
       code: "peak_time",
@@ -129,9 +167,27 @@ export function calculateReliability(legs: Leg[], departureTime: string): Reliab
     });
   }
 
+  // Only the least punctual line counts, so long trips aren't punished per leg
+  const punctuality = rideLegs
+    .map((leg) => ({ leg, observed: history?.line(leg.line?.name || "", leg.from.name, leg.from.timePlanned) }))
+    .filter((entry): entry is { leg: Leg; observed: LineHistory } => !!entry.observed)
+    .sort((a, b) => a.observed.onTimeRate - b.observed.onTimeRate)[0];
+  if (punctuality && punctuality.observed.onTimeRate < thresholds.onTimeTarget) {
+    const penalty = Math.min(
+      penalties.historicalDelayMax,
+      (thresholds.onTimeTarget - punctuality.observed.onTimeRate) * penalties.historicalDelayWeight
+    );
+    totalPenalty += penalty;
+    reasons.push({
+      code: "historical_delay",
+      label: `${punctuality.leg.line?.name} usually ${Math.round(punctuality.observed.onTimeRate * 100)}% on time`,
+      penalty,
+    });
+  }
+
   for (const leg of legs) {
     if (leg.delayMinutes && leg.delayMinutes > 3) {
-      const penalty = 0.05;
+      const penalty = penalties.currentDelay;
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "current_delay")) {
         reasons.push({
@@ -146,17 +202,28 @@ export function calculateReliability(legs: Leg[], departureTime: string): Reliab
   const score = Math.max(0, Math.min(1, 1 - totalPenalty));
   
   let level: "low" | "medium" | "high";
-  if (score >= 0.75) level = "low";
-  else if (score >= 0.55) level = "medium";
+  if (unusable) level = "high";
+  else if (score >= profile.levels.low) level = "low";
+  else if (score >= profile.levels.medium) level = "medium";
   else level = "high";
 
   reasons.sort((a, b) => b.penalty - a.penalty);
 
+  // A broken trip has nothing left to simulate
+  const propagation = unusable ? undefined : propagateDelays(legs, transferRisks.map((r) => r.requiredMinutes), history);
+  propagation?.transferProbabilities.forEach((probability, i) => (transferRisks[i].holdProbability = probability));
+
   return {
     score,
     level,
     reasons: reasons.slice(0, 3),
     transferRisks,
+    ...(unusable && { unusable }),
+    profile: profile.name,
+    ...(propagation && {
+      allTransfersProbability: propagation.allTransfersProbability,
+      expectedArrivalDelayMinutes: propagation.expectedArrivalDelayMinutes,
+    }),
   };
 }
 
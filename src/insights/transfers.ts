@@ -0,0 +1,64 @@
+import { dataFilePath, readDataFile } from "./datafiles";
+
+// Minimum transfer times per station, keyed by UIC id. minTransferMinutes is the official
+// station-wide value; walkMinutes refines it for known platform pairs, with platforms
+// grouped into areas ("hall|loewenstrasse") so pairs don't have to be listed one by one.
+
+export interface StationTransferTimes {
+  name: string;
+  large?: boolean;
+  minTransferMinutes: number;
+  samePlatformMinutes?: number;
+  platformGroups?: Record<string, string[]>;
+  walkMinutes?: Record<string, number>;
+}
+
+export interface RequiredTransfer {
+  minutes: number;
+  source: "platforms" | "station" | "default";
+  isBigStation: boolean;
+}
+
+// Without data, assume a plain cross-platform change at a small station
+const DEFAULT_MIN_TRANSFER_MINUTES = 3;
+
+export function loadTransferTimes(filePath: string): Record<string, StationTransferTimes> {
+  return readDataFile(filePath);
+}
+
+export function createTransferTimes(stations: Record<string, StationTransferTimes>) {
+  // Exact-name fallback for providers that don't return station ids
+  const byName = new Map(Object.values(stations).map((s) => [s.name.toLowerCase(), s]));
+
+  const platformGroup = (station: StationTransferTimes, platform: string) =>
+    Object.entries(station.platformGroups || {}).find(([, platforms]) => platforms.includes(platform))?.[0];
+
+  return {
+    station(stop: { stationId?: string; name: string }): StationTransferTimes | undefined {
+      return (stop.stationId && stations[stop.stationId]) || byName.get(stop.name.toLowerCase());
+    },
+
+    required(stop: { stationId?: string; name: string }, fromPlatform?: string, toPlatform?: string): RequiredTransfer {
+      const station = this.station(stop);
+      if (!station) return { minutes: DEFAULT_MIN_TRANSFER_MINUTES, source: "default", isBigStation: false };
+      const isBigStation = !!station.large;
+
+      if (fromPlatform && toPlatform) {
+        if (fromPlatform === toPlatform && station.samePlatformMinutes !== undefined) {
+          return { minutes: station.samePlatformMinutes, source: "platforms", isBigStation };
+        }
+        const from = platformGroup(station, fromPlatform);
+        const to = platformGroup(station, toPlatform);
+        const walk = from && to && station.walkMinutes?.[[from, to].sort().join("|")];
+        if (walk) return { minutes: walk, source: "platforms", isBigStation };
+      }
+      return { minutes: station.minTransferMinutes, source: "station", isBigStation };
+    },
+  };
+}
+
+export type TransferTimes = ReturnType<typeof createTransferTimes>;
+
+export const transferTimes = createTransferTimes(
+  loadTransferTimes(dataFilePath(process.env.TRANSFER_TIMES_FILE, "transfer-times.json"))
+);
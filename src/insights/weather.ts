@@ -1,3 +1,6 @@
+import { getJson } from "../api/http";
+import { RequestBudgetExceeded } from "../api/errors";
+
 export interface WeatherSample {
   station: string;
   time: string;
@@ -9,6 +12,12 @@ export interface WeatherSample {
   windSpeed: number;
   windGusts: number;
   weatherCode: number;
+  leadHours: number; // how far ahead of now this forecast looks
+  confidence: number; // 0-1, see forecastHorizon
+  precipitationProbability?: number; // percent, when the model provides it
+  // Min and max over the hours around the trip, wider the further ahead it is
+  precipitationRange?: [number, number];
+  temperatureRange?: [number, number];
 }
 
 export interface WeatherReason {
@@ -17,23 +26,70 @@ export interface WeatherReason {
   penalty: number;
 }
 
+export type ForecastHorizon = "now" | "short" | "medium" | "long" | "unavailable";
+
 export interface WeatherInsight {
   level: "low" | "medium" | "high";
   penalty: number;
   reasons: WeatherReason[];
   samples: WeatherSample[];
+  horizon: ForecastHorizon; // of the furthest-ahead sample; "unavailable" when no point has a forecast
+  confidence: number;
+  missing?: MissingForecast[]; // requested points left out of samples, and why
+}
+
+// "out_of_window": beyond what the forecast covers yet; "fetch_failed": the weather service didn't answer
+export interface MissingForecast {
+  station: string;
+  reason: "out_of_window" | "fetch_failed";
 }
 
-const cache = new Map<string, { data: WeatherSample; expires: number }>();
 const CACHE_TTL_MS = 15 * 60 * 1000; // 15 minutes
 
-function getCacheKey(lat: number, lon: number, hour: string): string {
-  return `weather:${lat.toFixed(2)}:${lon.toFixed(2)}:${hour}`;
+// Hourly series from Open-Meteo, one value per entry in `time`
+interface OpenMeteoResponse {
+  hourly?: {
+    time?: string[];
+    temperature_2m?: number[];
+    precipitation?: number[];
+    precipitation_probability?: (number | null)[];
+    snowfall?: number[];
+    wind_speed_10m?: number[];
+    wind_gusts_10m?: number[];
+    weather_code?: number[];
+  };
+}
+
+// Open-Meteo serves hourly forecasts up to 16 days ahead
+const FORECAST_WINDOW_HOURS = 16 * 24;
+
+// Forecast skill drops with lead time, and so does our certainty about when rain arrives
+const HORIZONS: { maxLeadHours: number; horizon: ForecastHorizon; confidence: number; spreadHours: number }[] = [
+  { maxLeadHours: 6, horizon: "now", confidence: 1, spreadHours: 0 },
+  { maxLeadHours: 48, horizon: "short", confidence: 0.85, spreadHours: 1 },
+  { maxLeadHours: 7 * 24, horizon: "medium", confidence: 0.6, spreadHours: 2 },
+  { maxLeadHours: FORECAST_WINDOW_HOURS, horizon: "long", confidence: 0.35, spreadHours: 3 },
+];
+
+export function forecastHorizon(datetime: string, now = Date.now()) {
+  const leadHours = Math.max(0, Math.round((new Date(datetime).getTime() - now) / 3600000));
+  const { horizon, confidence, spreadHours } = HORIZONS.find((h) => leadHours <= h.maxLeadHours) || {
+    horizon: "unavailable" as const,
+    confidence: 0,
+    spreadHours: 0,
+  };
+  return { leadHours, horizon, confidence, spreadHours };
 }
 
+const range = (values: number[] | undefined, from: number, to: number): [number, number] | undefined => {
+  const hours = values?.slice(from, to + 1).filter((v) => typeof v === "number");
+  return hours?.length ? [Math.min(...hours), Math.max(...hours)] : undefined;
+};
+
+// null when the forecast doesn't reach this hour yet; upstream failures throw
 async function fetchWeatherForPoint(lat: number, lon: number, datetime: string): Promise<WeatherSample | null> {
   const date = new Date(datetime);
-  // Format date in Zurich timezone for cache key and API
+  // Format date in Zurich timezone for the API
   const zurichFormatter = new Intl.DateTimeFormat("sv-SE", { 
     timeZone: "Europe/Zurich", 
     year: "numeric", month: "2-digit", day: "2-digit",
@@ -43,52 +99,51 @@ async function fetchWeatherForPoint(lat: number, lon: number, datetime: string):
   const getPart = (type: string) => parts.find(p => p.type === type)?.value || "";
   const dateStr = `${getPart("year")}-${getPart("month")}-${getPart("day")}`;
   const targetHour = parseInt(getPart("hour"));
-  
-  const cacheKey = getCacheKey(lat, lon, `${dateStr}T${targetHour}`);
-
-  const cached = cache.get(cacheKey);
-  if (cached && cached.expires > Date.now()) {
-    return cached.data;
-  }
+  const { leadHours, confidence, spreadHours } = forecastHorizon(datetime);
 
   const url = new URL("https://api.open-meteo.com/v1/forecast");
-  url.searchParams.set("latitude", lat.toFixed(4));
-  url.searchParams.set("longitude", lon.toFixed(4));
-  url.searchParams.set("hourly", "temperature_2m,precipitation,snowfall,wind_speed_10m,wind_gusts_10m,weather_code");
+  // Rounded to ~1km so nearby stations share one cached response
+  url.searchParams.set("latitude", lat.toFixed(2));
+  url.searchParams.set("longitude", lon.toFixed(2));
+  url.searchParams.set("hourly", "temperature_2m,precipitation,precipitation_probability,snowfall,wind_speed_10m,wind_gusts_10m,weather_code");
   url.searchParams.set("start_date", dateStr);
   url.searchParams.set("end_date", dateStr);
   url.searchParams.set("timezone", "Europe/Zurich");
 
-  try {
-    const response = await fetch(url.toString());
-    if (!response.ok) return null;
-
-    const data = await response.json();
-    const hourly = data.hourly;
-    if (!hourly?.time?.length) return null;
-
-    // API returns times like "2026-01-03T17:00" in local Zurich time - extract hour directly
-    const hourIndex = hourly.time.findIndex((t: string) => parseInt(t.slice(11, 13)) === targetHour);
-    if (hourIndex === -1) return null;
-
-    const sample: WeatherSample = {
-      station: "",
-      time: datetime,
-      lat,
-      lon,
-      temperature: hourly.temperature_2m?.[hourIndex] ?? 0,
-      precipitation: hourly.precipitation?.[hourIndex] ?? 0,
-      snowfall: hourly.snowfall?.[hourIndex] ?? 0,
-      windSpeed: hourly.wind_speed_10m?.[hourIndex] ?? 0,
-      windGusts: hourly.wind_gusts_10m?.[hourIndex] ?? 0,
-      weatherCode: hourly.weather_code?.[hourIndex] ?? 0,
-    };
-
-    cache.set(cacheKey, { data: sample, expires: Date.now() + CACHE_TTL_MS });
-    return sample;
-  } catch {
-    return null;
-  }
+  const data = await getJson<OpenMeteoResponse>(url.toString(), { timeoutMs: 5000, retries: 1, cacheTtlMs: CACHE_TTL_MS });
+  const hourly = data.hourly;
+  if (!hourly?.time?.length) return null;
+
+  // API returns times like "2026-01-03T17:00" in local Zurich time - extract hour directly
+  const hourIndex = hourly.time.findIndex((t: string) => parseInt(t.slice(11, 13)) === targetHour);
+  if (hourIndex === -1) return null;
+  // Ranges stay within the requested day; good enough for a travel hint
+  const from = Math.max(0, hourIndex - spreadHours);
+  const to = hourIndex + spreadHours;
+
+  const sample: WeatherSample = {
+    station: "",
+    time: datetime,
+    lat,
+    lon,
+    temperature: hourly.temperature_2m?.[hourIndex] ?? 0,
+    precipitation: hourly.precipitation?.[hourIndex] ?? 0,
+    snowfall: hourly.snowfall?.[hourIndex] ?? 0,
+    windSpeed: hourly.wind_speed_10m?.[hourIndex] ?? 0,
+    windGusts: hourly.wind_gusts_10m?.[hourIndex] ?? 0,
+    weatherCode: hourly.weather_code?.[hourIndex] ?? 0,
+    leadHours,
+    confidence,
+    ...(typeof hourly.precipitation_probability?.[hourIndex] === "number" && {
+      precipitationProbability: hourly.precipitation_probability[hourIndex],
+    }),
+    ...(spreadHours > 0 && {
+      precipitationRange: range(hourly.precipitation, from, to),
+      temperatureRange: range(hourly.temperature_2m, from, to),
+    }),
+  };
+
+  return sample;
 }
 
 interface StationCoord {
@@ -103,22 +158,36 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
   const reasons: WeatherReason[] = [];
   let totalPenalty = 0;
 
-  const limitedStations = stations.slice(0, 4);
-
+  // Beyond the forecast window there is nothing to fetch. Points without a sample are listed
+  // with the reason, so a gap in the forecast never reads as good weather.
+  const missing: MissingForecast[] = [];
   await Promise.all(
-    limitedStations.map(async (station) => {
-      const sample = await fetchWeatherForPoint(station.lat, station.lon, station.time);
-      if (sample) {
-        sample.station = station.name;
-        samples.push(sample);
+    stations.slice(0, 4).map(async (station) => {
+      if (forecastHorizon(station.time).horizon === "unavailable") {
+        missing.push({ station: station.name, reason: "out_of_window" });
+        return;
+      }
+      try {
+        const sample = await fetchWeatherForPoint(station.lat, station.lon, station.time);
+        if (sample) samples.push({ ...sample, station: station.name });
+        else missing.push({ station: station.name, reason: "out_of_window" });
+      } catch (error) {
+        if (error instanceof RequestBudgetExceeded) throw error;
+        missing.push({ station: station.name, reason: "fetch_failed" });
       }
     })
   );
+  if (samples.length === 0) {
+    return { level: "low", penalty: 0, reasons: [], samples: [], horizon: "unavailable", confidence: 0, missing };
+  }
 
   for (const sample of samples) {
+    // A rainy forecast two weeks out says little, so it weighs less
+    const scaled = (penalty: number) => Math.round(penalty * sample.confidence * 100) / 100;
+
     // Snow risk: temp < 1°C AND precipitation
     if (sample.temperature < 1 && sample.precipitation > 0.5) {
-      const penalty = 0.20;
+      const penalty = scaled(0.20);
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "snow_risk")) {
         reasons.push({
@@ -131,7 +200,7 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
 
     // Heavy precipitation
     if (sample.precipitation > 5) {
-      const penalty = 0.12;
+      const penalty = scaled(0.12);
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "heavy_rain")) {
         reasons.push({
@@ -141,7 +210,7 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
         });
       }
     } else if (sample.precipitation > 2) {
-      const penalty = 0.06;
+      const penalty = scaled(0.06);
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "rain")) {
         reasons.push({
@@ -154,7 +223,7 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
 
     // High wind gusts
     if (sample.windGusts > 60) {
-      const penalty = 0.15;
+      const penalty = scaled(0.15);
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "high_wind")) {
         reasons.push({
@@ -164,7 +233,7 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
         });
       }
     } else if (sample.windGusts > 40) {
-      const penalty = 0.08;
+      const penalty = scaled(0.08);
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "wind")) {
         reasons.push({
@@ -177,7 +246,7 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
 
     // Freezing conditions
     if (sample.temperature < -5) {
-      const penalty = 0.05;
+      const penalty = scaled(0.05);
       totalPenalty += penalty;
       if (!reasons.find(r => r.code === "freezing")) {
         reasons.push({
@@ -198,11 +267,16 @@ export async function getWeatherInsights(stations: StationCoord[]): Promise<Weat
 
   reasons.sort((a, b) => b.penalty - a.penalty);
 
+  const furthest = forecastHorizon(new Date(Math.max(...samples.map((s) => new Date(s.time).getTime()))).toISOString());
+
   return {
     level,
     penalty: totalPenalty,
     reasons: reasons.slice(0, 2),
     samples,
+    horizon: furthest.horizon,
+    confidence: furthest.confidence,
+    ...(missing.length > 0 && { missing }),
   };
 }
 
@@ -1,23 +1,80 @@
+export type TransportMode = "train" | "tram" | "bus" | "ship" | "cableway";
+
 export interface Station {
-  id?: string;
+  id?: string; // UIC station number, e.g. "8503000" for Zürich HB
   name: string;
+  coordinate?: { lat: number; lon: number };
+  type?: TransportMode;
+}
+
+export interface ConnectionFilters {
+  via?: string[];
+  transportations?: TransportMode[];
+  direct?: boolean;
+  sleeper?: boolean;
+  couchette?: boolean;
+  bike?: boolean;
+}
+
+export interface NearbyStation extends Station {
+  distanceMeters: number;
+  walkingDistanceMeters: number;
+  walkingMinutes: number;
 }
 
 export interface StopTime {
   name: string;
   timePlanned: string;
   timeActual?: string;
-  platform?: string;
+  stationId?: string; // UIC id, when the provider returns one
+  platform?: string; // where the train actually stops, i.e. platformActual if known
+  platformPlanned?: string;
+  platformActual?: string;
+  platformChanged?: boolean;
+  cancelled?: boolean;
+  // Intermediate stops carry both ends of the dwell
+  arrivalPlanned?: string;
+  arrivalActual?: string;
+  departurePlanned?: string;
+  departureActual?: string;
+}
+
+export type OccupancyLevel = "low" | "medium" | "high";
+
+export interface Occupancy {
+  firstClass?: OccupancyLevel;
+  secondClass?: OccupancyLevel;
+}
+
+export interface LineInfo {
+  name: string; // display label, e.g. "IC 5", "S12", "B 31"
+  category?: string; // upstream category: IC, IR, S, RE, B, T, ...
+  number?: string;
+  operator?: string;
+  destination?: string;
 }
 
+// "partial": the train runs, but skips some stops of this leg
+export type CancellationStatus = "cancelled" | "partial";
+
 export interface Leg {
   type: "walk" | "ride";
-  line?: string;
-  operator?: string;
+  line?: LineInfo;
   from: StopTime;
   to: StopTime;
   stops?: StopTime[];
   delayMinutes?: number;
+  occupancy?: Occupancy;
+  cancellation?: CancellationStatus;
+}
+
+// Next usable connection from the transfer station if the planned onward train is missed
+export interface TransferFallback {
+  line?: LineInfo; // first ride of the fallback
+  departureTime: string;
+  arrivalTime: string;
+  arrivalDelayMinutes: number; // later than the original connection would have arrived
+  transfersCount: number;
 }
 
 export interface TransferRisk {
@@ -26,6 +83,11 @@ export interface TransferRisk {
   marginMinutes: number;
   riskLevel: "low" | "medium" | "high";
   isBigStation: boolean;
+  requiredMinutes: number; // minimum transfer time at this station for these platforms
+  slackMinutes: number; // marginMinutes - requiredMinutes
+  historicalMissRate?: number; // share of past transfers here that were missed, when known
+  holdProbability?: number; // simulated chance of making this change, see propagateDelays
+  fallback?: TransferFallback; // only computed for high-risk changes
 }
 
 export interface ReliabilityReason {
@@ -39,6 +101,10 @@ export interface ReliabilityInsight {
   level: "low" | "medium" | "high";
   reasons: ReliabilityReason[];
   transferRisks: TransferRisk[];
+  unusable?: boolean; // a leg is cancelled or no longer reaches its stop
+  profile: string; // name of the scoring profile that produced this insight
+  allTransfersProbability?: number; // simulated chance of making every change
+  expectedArrivalDelayMinutes?: number;
 }
 
 export interface WeatherSample {
@@ -52,6 +118,12 @@ export interface WeatherSample {
   windSpeed: number;
   windGusts: number;
   weatherCode: number;
+  leadHours: number; // how far ahead of now this forecast looks
+  confidence: number; // 0-1, lower the further ahead
+  precipitationProbability?: number; // percent, when the model provides it
+  // Min and max over the hours around the trip, wider the further ahead it is
+  precipitationRange?: [number, number];
+  temperatureRange?: [number, number];
 }
 
 export interface WeatherReason {
@@ -60,11 +132,22 @@ export interface WeatherReason {
   penalty: number;
 }
 
+export type ForecastHorizon = "now" | "short" | "medium" | "long" | "unavailable";
+
 export interface WeatherInsight {
   level: "low" | "medium" | "high";
   penalty: number;
   reasons: WeatherReason[];
   samples: WeatherSample[];
+  horizon: ForecastHorizon; // of the furthest-ahead sample; "unavailable" when no point has a forecast
+  confidence: number;
+  missing?: MissingForecast[]; // requested points left out of samples, and why
+}
+
+// "out_of_window": beyond what the forecast covers yet; "fetch_failed": the weather service didn't answer
+export interface MissingForecast {
+  station: string;
+  reason: "out_of_window" | "fetch_failed";
 }
 
 export interface Connection {
@@ -77,5 +160,13 @@ export interface Connection {
   reliabilityScore?: number;
   reliability?: ReliabilityInsight;
   weather?: WeatherInsight;
+  weatherSkipped?: boolean;
+  occupancy?: Occupancy;
   tags: string[];
 }
+
+// Missing when the results carry no usable time to page from
+export interface ConnectionCursors {
+  earlier?: string;
+  later?: string;
+}
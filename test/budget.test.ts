@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { consumeRequestBudget, remainingRequestBudget, withRequestBudget } from "../src/api/budget";
+import { RequestBudgetExceeded } from "../src/api/errors";
+import { getJson } from "../src/api/http";
+import { acquireToken } from "../src/api/ratelimit";
+import { findConnections } from "../src/api/transport";
+
+const BOARD_URL = "https://transport.opendata.ch/v1/stationboard?station=Bern&limit=5&type=departure";
+
+test("running out of budget skips weather but keeps the connections", async () => {
+  // The search itself takes the only call; weather and fallbacks find nothing left
+  const result = await withRequestBudget(() => findConnections("Zürich HB", "Bern", "2026-03-10T09:00:00Z", false, 3, true), 1);
+
+  assert.equal(result.connections.length, 3);
+  for (const connection of result.connections) {
+    assert.equal(connection.weatherSkipped, true);
+    assert.equal(connection.weather, undefined);
+  }
+});
+
+test("each invocation gets its own budget", async () => {
+  await withRequestBudget(async () => {
+    assert.equal(remainingRequestBudget(), 2);
+    consumeRequestBudget();
+    await withRequestBudget(async () => assert.equal(remainingRequestBudget(), 5), 5);
+    consumeRequestBudget();
+    assert.throws(consumeRequestBudget, RequestBudgetExceeded);
+  }, 2);
+
+  // Outside any invocation nothing is limited
+  assert.equal(remainingRequestBudget(), Infinity);
+  assert.doesNotThrow(consumeRequestBudget);
+});
+
+test("invocations requesting the same URL each pay for their own call", async () => {
+  const remaining = await Promise.all(
+    [1, 2].map(() =>
+      withRequestBudget(async () => {
+        await getJson(BOARD_URL, { cacheTtlMs: 60000 });
+        return remainingRequestBudget();
+      }, 1)
+    )
+  );
+  assert.deepEqual(remaining, [0, 0]);
+
+  // Once cached, the response is free
+  await withRequestBudget(async () => {
+    await getJson(BOARD_URL, { cacheTtlMs: 60000 });
+    assert.equal(remainingRequestBudget(), 1);
+  }, 1);
+});
+
+test("the token bucket allows a burst, then paces to its refill rate", async () => {
+  // Unknown hosts get 10 tokens refilled at 5 per second
+  const host = "bucket.test.invalid";
+  const start = Date.now();
+  for (let i = 0; i < 10; i++) await acquireToken(host);
+  assert.ok(Date.now() - start < 100);
+
+  await acquireToken(host);
+  assert.ok(Date.now() - start >= 150);
+});
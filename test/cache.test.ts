@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { mock, test } from "node:test";
+import { createResponseCache } from "../src/api/cache";
+
+const counter = () => {
+  let calls = 0;
+  const load = async () => ++calls;
+  return { load, calls: () => calls };
+};
+
+test("entries expire after their TTL", async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, "now", () => now);
+  const cache = createResponseCache();
+  const { load, calls } = counter();
+
+  assert.equal(await cache.getOrLoad("a", 1000, load), 1);
+  now += 999;
+  assert.equal(await cache.getOrLoad("a", 1000, load), 1);
+  now += 1;
+  assert.equal(await cache.getOrLoad("a", 1000, load), 2);
+  assert.equal(calls(), 2);
+});
+
+test("the least recently used entry is evicted first", async () => {
+  const cache = createResponseCache({ maxEntries: 2 });
+  await cache.getOrLoad("a", 60000, async () => "a");
+  await cache.getOrLoad("b", 60000, async () => "b");
+  await cache.getOrLoad("a", 60000, async () => "stale"); // hit, "a" is now most recent
+  await cache.getOrLoad("c", 60000, async () => "c");
+
+  assert.equal(cache.size, 2);
+  assert.equal(await cache.getOrLoad("a", 60000, async () => "reloaded"), "a");
+  assert.equal(await cache.getOrLoad("b", 60000, async () => "reloaded"), "reloaded");
+});
+
+test("identical loads in one scope share a single call", async () => {
+  const scope = {};
+  const cache = createResponseCache({ scope: () => scope });
+  const load = mock.fn(async () => "value");
+
+  const results = await Promise.all([cache.getOrLoad("a", 60000, load), cache.getOrLoad("a", 60000, load)]);
+  assert.deepEqual(results, ["value", "value"]);
+  assert.equal(load.mock.callCount(), 1);
+});
+
+test("loads in different scopes don't share calls or failures", async () => {
+  let scope = {};
+  const cache = createResponseCache({ scope: () => scope });
+
+  const failing = cache.getOrLoad("a", 60000, () => Promise.reject(new Error("budget of the first caller")));
+  scope = {};
+  const succeeding = cache.getOrLoad("a", 60000, async () => "value");
+
+  await assert.rejects(failing, /first caller/);
+  assert.equal(await succeeding, "value");
+});
+
+test("failed loads are not cached", async () => {
+  const cache = createResponseCache();
+  await assert.rejects(cache.getOrLoad("a", 60000, () => Promise.reject(new Error("down"))));
+  assert.equal(await cache.getOrLoad("a", 60000, async () => "value"), "value");
+});
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { InvalidCursor } from "../src/api/errors";
+import { decodeConnectionCursor, findConnections, getConnectionCursors } from "../src/api/transport";
+import type { Connection } from "../src/types";
+
+test("cursors page from the first arrival and the last departure", async () => {
+  const { cursors } = await findConnections("Zürich HB", "Bern", "2026-03-10T09:00:00Z", false, 3, false);
+
+  // Results arrive 10:58-11:28 and depart 10:02-10:32 Swiss time
+  assert.deepEqual(decodeConnectionCursor(cursors.earlier!), { datetime: "2026-03-10T09:57:00.000Z", isArrivalTime: true });
+  assert.deepEqual(decodeConnectionCursor(cursors.later!), { datetime: "2026-03-10T09:33:00.000Z", isArrivalTime: false });
+});
+
+test("no cursor is offered without a usable time", () => {
+  const undated = { departureTime: "", arrivalTime: "" } as Connection;
+  assert.deepEqual(getConnectionCursors([undated]), {});
+});
+
+test("an invalid cursor is rejected with InvalidCursor", () => {
+  assert.throws(() => decodeConnectionCursor("not-a-cursor"), InvalidCursor);
+  const noTime = Buffer.from(JSON.stringify({ datetime: "soon" })).toString("base64url");
+  assert.throws(() => decodeConnectionCursor(noTime), InvalidCursor);
+});
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createDelayHistory, type HistoryBackend, type HistorySnapshot } from "../src/insights/history";
+import type { Leg } from "../src/types";
+
+const NOW = Date.parse("2026-03-10T09:00:00Z");
+const at = (minutes: number) => new Date(NOW + minutes * 60000).toISOString();
+
+const ride = (line: string, from: string, departs: number, to: string, arrives: number, delayMinutes = 0): Leg => ({
+  type: "ride",
+  line: { name: line },
+  from: { name: from, timePlanned: at(departs) },
+  to: { name: to, timePlanned: at(arrives), ...(delayMinutes > 0 && { timeActual: at(arrives + delayMinutes) }) },
+});
+
+// Keeps what would have been written to HISTORY_FILE
+const memoryBackend = (initial: HistorySnapshot | null = null) => {
+  const saved: HistorySnapshot[] = [];
+  const backend: HistoryBackend = {
+    load: async () => initial && structuredClone(initial),
+    save: async (snapshot) => void saved.push(structuredClone(snapshot)),
+  };
+  return { backend, saved };
+};
+
+test("only stops with a prognosis or close to now are recorded", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"], now: NOW });
+  const { backend, saved } = memoryBackend();
+  const history = createDelayHistory({ backend });
+  await history.load();
+
+  history.record([
+    // Departs in 10 minutes, arrives in 3 hours without a prognosis
+    ride("IC 1", "Zürich HB", 10, "Lausanne", 180),
+    // Tomorrow, but already reported late
+    ride("IR 15", "Bern", 24 * 60, "Luzern", 24 * 60 + 60, 4),
+  ]);
+  t.mock.timers.tick(2000);
+  await Promise.resolve();
+
+  const pending = Object.keys(saved[0].pendingStops);
+  assert.deepEqual(pending, [`IC 1|Zürich HB|${at(10)}`, `IR 15|Luzern|${at(24 * 60 + 60)}`]);
+});
+
+test("pending stops settle into the aggregates once their time has passed", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"], now: NOW });
+  const history = createDelayHistory({ minSamples: 1 });
+
+  history.record([ride("S 3", "Bern", -50, "Thun", 20, 5), ride("RE", "Thun", 30, "Spiez", 45)]);
+  assert.equal(history.line("S 3", "Thun", at(20)), undefined);
+
+  t.mock.timers.tick(60 * 60000);
+  history.record([]);
+  const line = history.line("S 3", "Thun", at(20));
+  assert.equal(line?.samples, 1);
+  assert.equal(line?.averageDelayMinutes, 5);
+  // 25 minutes left for the change at Thun, arriving 5 late still makes it
+  assert.equal(history.transfer("Thun", at(30))?.missedRate, 0);
+});
+
+test("slots without new observations are pruned on save", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"], now: NOW });
+  const stale = { delays: [1], cancelled: 0, updatedAt: NOW - 91 * 24 * 60 * 60000 };
+  const fresh = { delays: [1], cancelled: 0, updatedAt: NOW - 24 * 60 * 60000 };
+  const { backend, saved } = memoryBackend({
+    lines: { "S 1|Bern|2|9": stale, "S 1|Bern|2|10": fresh },
+    transfers: {},
+    pendingStops: {},
+    pendingTransfers: {},
+  });
+  const history = createDelayHistory({ backend, retentionDays: 90 });
+  await history.load();
+
+  history.record([]);
+  t.mock.timers.tick(2000);
+  await Promise.resolve();
+
+  assert.deepEqual(Object.keys(saved[0].lines), ["S 1|Bern|2|10"]);
+});
+
+test("each map is capped at maxEntries, keeping the most recent slots", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout", "Date"], now: NOW });
+  const bucket = (daysAgo: number) => ({ delays: [1], cancelled: 0, updatedAt: NOW - daysAgo * 24 * 60 * 60000 });
+  const { backend, saved } = memoryBackend({
+    lines: { a: bucket(3), b: bucket(1), c: bucket(2) },
+    transfers: {},
+    pendingStops: {},
+    pendingTransfers: {},
+  });
+  const history = createDelayHistory({ backend, maxEntries: 2 });
+  await history.load();
+
+  history.record([]);
+  t.mock.timers.tick(2000);
+  await Promise.resolve();
+
+  assert.deepEqual(Object.keys(saved[0].lines).sort(), ["b", "c"]);
+});
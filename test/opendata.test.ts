@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FixtureNotFound } from "../src/api/errors";
+import { createOpendataProvider } from "../src/api/providers/opendata";
+
+const provider = createOpendataProvider();
+
+// With no fixture for these stations, the replay error reports the URL that would have been fetched
+const requestedUrl = async (request: Promise<unknown>) => {
+  const error = await request.then(() => undefined, (e: unknown) => e);
+  assert.ok(error instanceof FixtureNotFound);
+  return new URL(error.url).searchParams;
+};
+
+test("times just after midnight in Switzerland query the Swiss date", async () => {
+  // 23:30 UTC on 28 March is 00:30 on 29 March in Zurich
+  const board = await requestedUrl(provider.getStationboard({ station: "Nowhere", limit: 1, datetime: "2026-03-28T23:30:00Z" }));
+  assert.equal(board.get("datetime"), "2026-03-29 00:30");
+
+  const connections = await requestedUrl(
+    provider.getConnections({ from: "Nowhere", to: "Elsewhere", datetime: "2026-07-14T22:15:00Z", isArrivalTime: false, limit: 1, filters: {} })
+  );
+  assert.equal(connections.get("date"), "2026-07-15");
+  assert.equal(connections.get("time"), "00:15");
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataFileUnreadable, UnknownReliabilityProfile } from "../src/api/errors";
+import { createReliabilityProfiles, loadReliabilityProfiles, reliabilityProfiles } from "../src/insights/profiles";
+import { calculateReliability, type ReliabilityHistory } from "../src/insights/reliability";
+import { createTransferTimes } from "../src/insights/transfers";
+import type { Leg } from "../src/types";
+
+test("the bundled profiles load whatever the working directory", () => {
+  assert.deepEqual(reliabilityProfiles.names().sort(), ["accessible", "cautious", "commuter", "default"]);
+  assert.equal(reliabilityProfiles.get("Cautious").extraTransferMinutes, 2);
+});
+
+test("profile names match case-insensitively on both sides", () => {
+  const profiles = createReliabilityProfiles({ "Night-Owl": { extraTransferMinutes: 4 } });
+  assert.equal(profiles.get("night-owl").extraTransferMinutes, 4);
+  assert.equal(profiles.get("NIGHT-OWL").name, "night-owl");
+});
+
+test("fields a profile leaves out come from the default profile", () => {
+  const profiles = createReliabilityProfiles({
+    default: { history: { highMissRate: 0.3 } },
+    relaxed: { history: { mediumMissRate: 0.15 } },
+  });
+  assert.deepEqual(profiles.get("relaxed").history, { highMissRate: 0.3, mediumMissRate: 0.15, onTimeTarget: 0.85 });
+});
+
+test("unknown profiles and unreadable files are errors", () => {
+  assert.throws(() => reliabilityProfiles.get("reckless"), UnknownReliabilityProfile);
+  assert.throws(() => loadReliabilityProfiles("/nonexistent/profiles.json"), DataFileUnreadable);
+});
+
+// Sunday noon, away from peak time; 10 minutes to change at Olten
+const legs: Leg[] = [
+  { type: "ride", line: { name: "IR 15" }, from: { name: "Bern", timePlanned: "2026-03-08T11:00:00Z" }, to: { name: "Olten", timePlanned: "2026-03-08T11:30:00Z" } },
+  { type: "ride", line: { name: "IC 5" }, from: { name: "Olten", timePlanned: "2026-03-08T11:40:00Z" }, to: { name: "Zürich HB", timePlanned: "2026-03-08T12:10:00Z" } },
+];
+
+const observed = (missedRate: number, onTimeRate: number): ReliabilityHistory => ({
+  transfer: () => ({ samples: 20, missedRate }),
+  line: () => ({ samples: 20, onTimeRate, averageDelayMinutes: 2, lateBy: () => 0 }),
+});
+
+test("historical risk cut-offs come from the profile", () => {
+  const profiles = createReliabilityProfiles({ tolerant: { history: { mediumMissRate: 0.12, onTimeTarget: 0.75 } } });
+  const score = (profile: string) =>
+    calculateReliability(legs, legs[0].from.timePlanned, observed(0.1, 0.8), profiles.get(profile), createTransferTimes({}));
+
+  const strict = score("default");
+  assert.equal(strict.transferRisks[0].riskLevel, "medium");
+  assert.ok(strict.reasons.some((r) => r.code === "historical_delay"));
+
+  const tolerant = score("tolerant");
+  assert.equal(tolerant.transferRisks[0].riskLevel, "low");
+  assert.ok(!tolerant.reasons.some((r) => r.code === "historical_delay"));
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { propagateDelays } from "../src/insights/propagation";
+import type { ReliabilityHistory } from "../src/insights/reliability";
+import type { Leg } from "../src/types";
+
+// IR running 2 minutes late into Olten, 6 minutes to catch the S-Bahn on
+const legs: Leg[] = [
+  {
+    type: "ride",
+    line: { name: "IR 15", category: "IR" },
+    from: { name: "Bern", timePlanned: "2026-03-10T08:00:00Z" },
+    to: { name: "Olten", timePlanned: "2026-03-10T08:30:00Z" },
+    delayMinutes: 2,
+  },
+  {
+    type: "ride",
+    line: { name: "S 3", category: "S" },
+    from: { name: "Olten", timePlanned: "2026-03-10T08:36:00Z" },
+    to: { name: "Aarau", timePlanned: "2026-03-10T08:45:00Z" },
+  },
+];
+
+test("the simulation is seeded by the trip, so results are stable", () => {
+  const result = propagateDelays(legs, [3]);
+  assert.deepEqual(result, { transferProbabilities: [0.915], allTransfersProbability: 0.915, expectedArrivalDelayMinutes: 3 });
+  assert.deepEqual(propagateDelays(legs, [3]), result);
+});
+
+test("a single ride has no change to miss", () => {
+  assert.deepEqual(propagateDelays(legs.slice(0, 1), []), {
+    transferProbabilities: [],
+    allTransfersProbability: 1,
+    expectedArrivalDelayMinutes: 2,
+  });
+});
+
+test("observed history replaces the category prior", () => {
+  // The IR has always reached Olten 10 minutes late, so the change never holds
+  const history: ReliabilityHistory = {
+    line: (line) =>
+      line === "IR 15" ? { samples: 20, onTimeRate: 0, averageDelayMinutes: 10, lateBy: (minutes) => (minutes <= 10 ? 1 : 0) } : undefined,
+    transfer: () => undefined,
+  };
+  const result = propagateDelays(legs, [3], history);
+  assert.equal(result.allTransfersProbability, 0);
+  // Waiting for the next S 3 costs its 30-minute headway
+  assert.ok(result.expectedArrivalDelayMinutes >= 30);
+});
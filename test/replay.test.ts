@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { findConnections, getStationboard } from "../src/api/transport";
+
+// Runs against the responses recorded in test/fixtures (see the "test" script), so
+// nothing here touches the network and results don't depend on the time of day.
+
+test("findConnections normalizes a recorded search", async () => {
+  const result = await findConnections("Zürich HB", "Bern", "2026-03-10T09:00:00Z", false, 3, false);
+
+  assert.equal(result.fromStation?.name, "Zürich HB");
+  assert.equal(result.toStation?.name, "Bern");
+  assert.equal(result.connections.length, 3);
+
+  const [delayed, viaOlten, cancelled] = result.connections;
+  assert.deepEqual(delayed.tags, ["fastest", "fewest transfers", "recommended"]);
+  assert.equal(delayed.durationMinutes, 56);
+  assert.equal(delayed.legs[0].delayMinutes, 3);
+  assert.equal(delayed.legs[0].from.platform, "32");
+  assert.equal(delayed.legs[0].from.platformChanged, true);
+
+  assert.equal(viaOlten.transfersCount, 1);
+  assert.equal(viaOlten.reliability?.transferRisks[0].fromStation, "Olten");
+  assert.equal(viaOlten.reliability?.transferRisks[0].marginMinutes, 12);
+
+  assert.deepEqual(cancelled.tags, ["cancelled"]);
+  assert.equal(cancelled.reliability?.unusable, true);
+});
+
+test("getStationboard normalizes a recorded departure board", async () => {
+  const board = await getStationboard("Bern", 5);
+
+  assert.equal(board.station, "Bern");
+  assert.deepEqual(board.departures.map((d) => d.line), ["IC 1", "S 1", "IR 15", "RE", "S 3"]);
+
+  const [onTime, late, cancelled, , flagged] = board.departures;
+  assert.equal(onTime.delayMinutes, undefined);
+  assert.equal(late.delayMinutes, 4);
+  assert.equal(late.platform, "6");
+  assert.equal(late.platformChanged, true);
+  assert.equal(cancelled.cancellation, "cancelled");
+
+  // A trailing "!" marks a platform change even without a prognosis platform
+  assert.equal(flagged.platform, "4");
+  assert.equal(flagged.platformChanged, true);
+  assert.equal(flagged.platformPlanned, undefined);
+});
+
+test("a timed board replays a fixture recorded at another time", async () => {
+  const board = await getStationboard("Bern", 5, "departure", { datetime: "2026-03-10T09:00:00Z" });
+  assert.equal(board.departures.length, 5);
+});
+
+test("a failed fallback lookup still returns the connection", async () => {
+  // Only two minutes to change at Olten, and no recorded response for the Plan B search from there
+  const result = await findConnections("Zürich HB", "Bern", "2026-03-10T09:00:00Z", false, 1, false);
+
+  const [risk] = result.connections[0].reliability?.transferRisks || [];
+  assert.equal(risk.riskLevel, "high");
+  assert.equal(risk.fallback, undefined);
+});
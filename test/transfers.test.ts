@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DataFileUnreadable } from "../src/api/errors";
+import { createTransferTimes, loadTransferTimes, transferTimes } from "../src/insights/transfers";
+
+const zurich = { stationId: "8503000", name: "Zürich HB" };
+
+test("known platforms use the walk between their areas", () => {
+  assert.deepEqual(transferTimes.required(zurich, "32", "31"), { minutes: 3, source: "platforms", isBigStation: true });
+  assert.deepEqual(transferTimes.required(zurich, "7", "7"), { minutes: 2, source: "platforms", isBigStation: true });
+});
+
+test("unknown platforms fall back to the station minimum", () => {
+  assert.deepEqual(transferTimes.required(zurich), { minutes: 7, source: "station", isBigStation: true });
+  // Matched by name when the provider sends no id
+  assert.deepEqual(transferTimes.required({ name: "zürich hb" }, "7", "99"), { minutes: 7, source: "station", isBigStation: true });
+});
+
+test("stations without data get the default minimum", () => {
+  const empty = createTransferTimes({});
+  assert.deepEqual(empty.required(zurich, "3", "4"), { minutes: 3, source: "default", isBigStation: false });
+});
+
+test("a missing transfer times file fails loudly", () => {
+  assert.throws(() => loadTransferTimes("/nonexistent/transfer-times.json"), DataFileUnreadable);
+});
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { forecastHorizon, getWeatherInsights } from "../src/insights/weather";
+
+const NOW = Date.parse("2026-03-10T08:00:00Z");
+const hoursAhead = (hours: number) => new Date(Date.now() + hours * 3600000).toISOString();
+
+test("forecast horizons widen with lead time and end after 16 days", () => {
+  const at = (hours: number) => forecastHorizon(new Date(NOW + hours * 3600000).toISOString(), NOW);
+  assert.deepEqual(at(2), { leadHours: 2, horizon: "now", confidence: 1, spreadHours: 0 });
+  assert.equal(at(24).horizon, "short");
+  assert.equal(at(5 * 24).horizon, "medium");
+  assert.equal(at(16 * 24).horizon, "long");
+  assert.deepEqual(at(16 * 24 + 1), { leadHours: 16 * 24 + 1, horizon: "unavailable", confidence: 0, spreadHours: 0 });
+  // Times already passed count as now
+  assert.equal(at(-3).leadHours, 0);
+});
+
+test("a trip entirely beyond the forecast window is unavailable", async () => {
+  const insight = await getWeatherInsights([{ name: "Bern", lat: 46.95, lon: 7.44, time: hoursAhead(20 * 24) }]);
+  assert.equal(insight.horizon, "unavailable");
+  assert.deepEqual(insight.samples, []);
+  assert.deepEqual(insight.missing, [{ station: "Bern", reason: "out_of_window" }]);
+});
+
+test("missing points are listed by cause without losing the horizon of the others", async () => {
+  const insight = await getWeatherInsights([
+    { name: "Bern", lat: 46.95, lon: 7.44, time: hoursAhead(1) },
+    // No recorded response for this point, as if the weather service were down
+    { name: "Thun", lat: 46.75, lon: 7.63, time: hoursAhead(2) },
+    { name: "Brig", lat: 46.32, lon: 7.99, time: hoursAhead(17 * 24) },
+  ]);
+
+  assert.deepEqual(insight.samples.map((s) => s.station), ["Bern"]);
+  assert.equal(insight.horizon, "now");
+  assert.equal(insight.confidence, 1);
+  assert.deepEqual(
+    insight.missing?.sort((a, b) => a.station.localeCompare(b.station)),
+    [
+      { station: "Brig", reason: "out_of_window" },
+      { station: "Thun", reason: "fetch_failed" },
+    ]
+  );
+});